@@ -0,0 +1,100 @@
+/**
+ * 文件修改审批的 diff 预览测试（使用假沙箱）：模板要求审批 → 策略判定 ask →
+ * 计算 diff → 随审批保存完整 diff、推送截断后的预览
+ * 运行: npx tsx scripts/test-diff-preview.ts
+ */
+
+import assert from 'node:assert/strict';
+import type { Sandbox } from '@shareai-lab/kode-sdk';
+import { executorTemplate } from '../src/agents/executor.js';
+import { DEFAULT_POLICY, evaluatePolicy } from '../src/orchestrator/policy.js';
+import { DIFF_PREVIEW_TOOLS, approvalDiff } from '../src/orchestrator/diff-preview.js';
+import { ApprovalManager } from '../src/orchestrator/approval.js';
+
+function fakeSandbox(files: Record<string, string>): Sandbox {
+  return {
+    fs: {
+      async read(path: string) {
+        if (!(path in files)) throw new Error(`ENOENT: ${path}`);
+        return files[path];
+      },
+    },
+  } as unknown as Sandbox;
+}
+
+function testRoutedToApproval() {
+  const required = executorTemplate.permission?.requireApprovalTools ?? [];
+  for (const tool of DIFF_PREVIEW_TOOLS) {
+    assert.ok(required.includes(tool), `${tool} 需要触发 permission_required`);
+    const verdict = evaluatePolicy(DEFAULT_POLICY, { toolName: tool, input: { path: 'a.ts' }, templateId: 'executor-agent', sandboxKind: 'local' });
+    assert.equal(verdict.action, 'ask', `本地沙箱中 ${tool} 进入人工审批`);
+  }
+  console.log('  ✓ 文件修改工具进入审批');
+}
+
+async function testDiffs() {
+  const sandbox = fakeSandbox({ 'src/a.ts': 'const a = 1;\nconst b = 2;\n' });
+
+  const created = await approvalDiff(sandbox, 'fs_write', { path: 'new.md', content: '# title\n' });
+  assert.deepEqual(created?.diff.map((f) => [f.path, f.additions, f.deletions]), [['new.md', 1, 0]]);
+
+  const edited = await approvalDiff(sandbox, 'fs_edit', { path: 'src/a.ts', old_string: 'const b = 2;', new_string: 'const b = 3;' });
+  assert.equal(edited?.diff[0].additions, 1);
+  assert.equal(edited?.diff[0].deletions, 1);
+  assert.match(edited!.diff[0].diff, /^-const b = 2;$/m);
+  assert.match(edited!.diff[0].diff, /^\+const b = 3;$/m);
+
+  const multi = await approvalDiff(sandbox, 'fs_multi_edit', {
+    edits: [
+      { path: 'src/a.ts', old_string: 'const a = 1;', new_string: 'let a = 1;' },
+      { path: 'src/a.ts', old_string: 'const b = 2;', new_string: 'let b = 2;' },
+      { path: 'src/a.ts', old_string: 'missing', new_string: 'x' },
+    ],
+  });
+  assert.equal(multi?.diff.length, 1, '同一文件的多处修改合并为一个 diff');
+  assert.match(multi!.diff[0].error ?? '', /未找到要替换的内容/);
+
+  assert.equal(await approvalDiff(sandbox, 'bash_run', { command: 'ls' }), undefined);
+  assert.equal(await approvalDiff(undefined, 'fs_write', { path: 'x', content: 'y' }), undefined);
+  console.log('  ✓ fs_write / fs_edit / fs_multi_edit 的 diff');
+}
+
+async function testApprovalKeepsFullDiff() {
+  const content = Array.from({ length: 500 }, (_, i) => `line ${i}`).join('\n');
+  const result = await approvalDiff(fakeSandbox({}), 'fs_write', { path: 'big.txt', content });
+  assert.ok(result);
+  assert.equal(result.preview[0].truncated, true, '推送的预览被截断');
+  assert.ok(result.preview[0].diff.split('\n').length <= 200);
+
+  const manager = new ApprovalManager({ ttlMs: 60_000, reminderMs: 0, expireOutcome: 'deny' });
+  const decisions: string[] = [];
+  manager.add({
+    taskId: 't1',
+    userId: 'alice',
+    permissionId: 'p1',
+    toolName: 'fs_write',
+    inputPreview: { path: 'big.txt' },
+    description: 'write → fs_write',
+    createdAt: Date.now(),
+    diff: result.diff,
+    respond: async (decision) => { decisions.push(decision); },
+  });
+  assert.equal(manager.get('p1')?.diff, result.diff, '审批保存完整 diff，供 /api/approval/:id/diff 获取');
+  assert.equal(await manager.decide('p1', 'allow', { id: 'bob', name: 'bob' }), 'decided');
+  assert.deepEqual(decisions, ['allow']);
+  console.log('  ✓ 完整 diff 随审批保存，预览截断');
+}
+
+async function main() {
+  console.log('=== diff 预览测试 ===\n');
+  testRoutedToApproval();
+  await testDiffs();
+  await testApprovalKeepsFullDiff();
+  console.log('\n=== 全部通过 ===');
+}
+
+main().catch((err) => {
+  console.error('\n❌ 测试失败:');
+  console.error(err);
+  process.exit(1);
+});
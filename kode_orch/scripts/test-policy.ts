@@ -0,0 +1,70 @@
+/**
+ * 审批策略测试：规则匹配顺序、路径 glob 与 policy.example.yaml
+ * 运行: npx tsx scripts/test-policy.ts
+ */
+
+import assert from 'node:assert/strict';
+import { readFileSync } from 'node:fs';
+import { evaluatePolicy, extractPaths, globToRegExp, parsePolicy, type PolicyInput } from '../src/orchestrator/policy.js';
+
+const example = parsePolicy(readFileSync(new URL('../policy.example.yaml', import.meta.url), 'utf-8'), 'yaml');
+
+function decide(input: Partial<PolicyInput> & { toolName: string }) {
+  return evaluatePolicy(example, { templateId: 'executor-agent', sandboxKind: 'local', input: {}, ...input });
+}
+
+function multiEdit(...paths: string[]) {
+  return { edits: paths.map((path) => ({ path, old_string: 'a', new_string: 'b' })) };
+}
+
+function testGlobs() {
+  assert.ok(globToRegExp('**/.env').test('.env'));
+  assert.ok(globToRegExp('**/.env').test('app/.env'));
+  assert.ok(globToRegExp('docs/**/*.md').test('docs/a/b.md'));
+  assert.ok(!globToRegExp('docs/*.md').test('docs/a/b.md'));
+  assert.deepEqual(extractPaths({ path: './a.ts' }), ['a.ts']);
+  assert.deepEqual(extractPaths(multiEdit('a.ts', 'b.ts')), ['a.ts', 'b.ts']);
+  console.log('  ✓ glob 与路径提取');
+}
+
+function testSinglePath() {
+  assert.equal(decide({ toolName: 'fs_write', input: { path: 'docs/guide.md' } }).rule, 'docs-writer');
+  assert.equal(decide({ toolName: 'fs_write', input: { path: 'src/index.ts' } }).action, 'ask');
+  assert.equal(decide({ toolName: 'fs_edit', input: { path: 'config/.env' } }).rule, 'protect-secrets');
+  assert.equal(decide({ toolName: 'bash_run', input: { command: 'git push --force' } }).rule, 'no-force-push');
+  assert.equal(decide({ toolName: 'bash_run', input: { command: 'ls -la' } }).rule, 'safe-command');
+  console.log('  ✓ 单个路径与命令');
+}
+
+function testMultiPath() {
+  // allow 要求每个路径都匹配
+  const docsOnly = decide({ toolName: 'fs_multi_edit', input: multiEdit('docs/a.md', 'docs/b/c.md') });
+  assert.equal(docsOnly.action, 'allow');
+  assert.equal(docsOnly.rule, 'docs-writer');
+  const mixed = decide({ toolName: 'fs_multi_edit', input: multiEdit('docs/a.md', 'src/index.ts') });
+  assert.equal(mixed.action, 'ask', '一个文档路径不能带着其他路径一起放行');
+  assert.equal(mixed.rule, undefined);
+  assert.equal(decide({ toolName: 'fs_multi_edit', input: { edits: [] } }).action, 'ask', '没有路径时 allow 规则不匹配');
+
+  // deny 只要有一个路径匹配
+  const secret = decide({ toolName: 'fs_multi_edit', input: multiEdit('docs/a.md', '.env') });
+  assert.equal(secret.action, 'deny');
+  assert.equal(secret.rule, 'protect-secrets');
+  console.log('  ✓ 多个路径：allow 全部匹配，deny 任一匹配');
+}
+
+function main() {
+  console.log('=== 审批策略测试 ===\n');
+  testGlobs();
+  testSinglePath();
+  testMultiPath();
+  console.log('\n=== 全部通过 ===');
+}
+
+try {
+  main();
+} catch (err) {
+  console.error('\n❌ 测试失败:');
+  console.error(err);
+  process.exit(1);
+}
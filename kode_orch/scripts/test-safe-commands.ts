@@ -0,0 +1,187 @@
+/**
+ * 安全命令判定测试：shell 解析与各命令的参数规则
+ * 运行: npx tsx scripts/test-safe-commands.ts
+ */
+
+import assert from 'node:assert/strict';
+import { parseShell, ShellParseError, type ShellCommand, type ShellNode } from '../src/orchestrator/shell-parser.js';
+import { analyzeCommand, isSafeCommand } from '../src/orchestrator/safe-commands.js';
+
+function commandsOf(node: ShellNode): ShellCommand[] {
+  switch (node.type) {
+    case 'list': return node.items.flatMap((item) => commandsOf(item.node));
+    case 'pipeline': return node.commands.flatMap(commandsOf);
+    case 'subshell': return commandsOf(node.body);
+    case 'command': return [node];
+  }
+}
+
+function expectSafe(commands: string[]) {
+  for (const command of commands) {
+    const verdict = analyzeCommand(command);
+    assert.equal(verdict.safe, true, `应自动放行: ${command}（${verdict.reason}）`);
+  }
+}
+
+function expectUnsafe(commands: string[]) {
+  for (const command of commands) {
+    assert.equal(analyzeCommand(command).safe, false, `应需要审批: ${command}`);
+  }
+}
+
+function testParser() {
+  const list = commandsOf(parseShell(`cat 'a b' "c d" e\\ f | grep x && (ls; pwd)`));
+  assert.deepEqual(list.map((c) => c.words.map((w) => w.value)), [['cat', 'a b', 'c d', 'e f'], ['grep', 'x'], ['ls'], ['pwd']]);
+
+  const [withRedirect] = commandsOf(parseShell('FOO=1 echo hi 2>&1 > out.txt'));
+  assert.deepEqual(withRedirect.assignments.map((w) => w.value), ['FOO=1']);
+  assert.deepEqual(withRedirect.redirects.map((r) => [r.op, r.target.value]), [['>&', '1'], ['>', 'out.txt']]);
+
+  const [dynamic] = commandsOf(parseShell('echo "$HOME" $(rm -rf x) plain'));
+  assert.deepEqual(dynamic.words.map((w) => w.dynamic), [false, true, true, false]);
+  assert.equal(dynamic.words[2].substitutions.length, 1);
+
+  assert.throws(() => parseShell(`echo 'unterminated`), ShellParseError);
+  assert.throws(() => parseShell('cat <<EOF\nx\nEOF'), ShellParseError);
+  console.log('  ✓ shell 解析');
+}
+
+function testComposition() {
+  expectSafe(['ls -la | grep foo | wc -l', 'cd src && ls', 'cat a 2>/dev/null; echo done', 'env LANG=C sort -u file', 'timeout 5 cat a']);
+  expectUnsafe([
+    'ls && rm -rf /',
+    'cat a > b',
+    'echo $(rm -rf x)',
+    'echo `touch x`',
+    '(ls) > out',
+    '$CMD foo',
+    'PATH=/tmp ls',
+    'env LD_PRELOAD=x.so ls',
+    'xargs rm < files',
+    'timeout 5 bash -c "rm x"',
+    `echo 'unterminated`,
+  ]);
+  assert.equal(isSafeCommand({ command: 'git status' }), true);
+  assert.equal(isSafeCommand(undefined), false);
+  console.log('  ✓ 管道、链、子命令与重定向');
+}
+
+function testRules() {
+  expectSafe([
+    'find . -name "*.ts"', 'sed -n 1,10p file', 'awk \'{print $1}\' file', 'uniq a',
+    'git log --oneline -5', 'git -C sub diff', 'git branch -a', 'git config --get user.name',
+    'npm run test', 'pip list', 'node --version', 'prettier --check .', 'date +%s',
+  ]);
+  expectUnsafe([
+    'find . -delete', 'find . -exec rm {} ;', 'sed -i s/a/b/ f', 'sed "w out" f', 'sed s/a/b/e f',
+    'awk \'{system("rm x")}\' f', 'awk \'{print > "out"}\' f', 'uniq a b', 'rg --pre sh x',
+    'git commit -m x', 'git -c core.pager=sh log', 'git branch new', 'git log --output=x',
+    'npm install', 'npx cowsay', 'pip install x', 'node -e "1"', 'prettier --write .', 'date 0101',
+  ]);
+  console.log('  ✓ 各命令的参数规则');
+}
+
+function testGitGrep() {
+  expectSafe(['git grep -n foo', 'git grep -e foo -- src']);
+  expectUnsafe([
+    `git grep -O'touch /tmp/pwned' x`,
+    'git grep -O x',
+    'git grep -nO x',
+    'git grep --open-files-in-pager=sh x',
+    'git grep --open-files sh x',
+  ]);
+  console.log('  ✓ git grep');
+}
+
+function testOptionAllowlists() {
+  expectSafe([
+    'git --version', 'git --no-pager log -p -20', 'git status --porcelain=v1 -uno', 'git log --format=%h -n 3 -- src',
+    'git diff --stat --cached HEAD~1', 'git rev-parse --abbrev-ref HEAD', 'git ls-files -z',
+    'tree -L 2 -a --dirsfirst', 'tree -I node_modules src', 'less -N file', 'less +G log.txt',
+    'go version', 'go test ./...', 'go test -v -run=TestFoo -count=1 ./pkg', 'go vet ./...',
+  ]);
+  expectUnsafe([
+    'git', 'git -C sub', 'git --exec-path=/tmp log', 'git --git-dir=/tmp/x log',
+    'git diff --ext-diff', 'git log -p --ext-diff', 'git show --textconv HEAD', 'git cat-file --textconv HEAD:f',
+    'tree -o out', 'tree -fo out', 'tree -R -H . src',
+    'less -o log.txt f', 'less -Olog.txt f', 'less --log-file=log.txt f', "less '+!rm x' f",
+    'go test -exec rm ./...', 'go test -toolexec=sh ./...', 'go test -coverprofile=c.out ./...', 'go vet -vettool=/bin/sh ./...',
+    'go run main.go', 'ack --pager=sh foo', 'ag --pager sh foo',
+  ]);
+  console.log('  ✓ git / tree / less / go 选项白名单');
+}
+
+function testXargs() {
+  expectSafe(['ls | xargs', 'find . -name "*.ts" | xargs wc -l', 'find . -print0 | xargs -0 grep -n foo', 'xargs -a files.txt cat']);
+  expectUnsafe([
+    'echo -delete | xargs find .',
+    'echo push --force origin main | xargs git',
+    "printf -- '-i s/a/b/ f' | xargs sed",
+    'xargs -a cmds.txt git',
+    'ls | xargs tsc',
+    'ls | xargs env rm',
+    'ls | xargs sort -o out',
+  ]);
+  console.log('  ✓ xargs 只允许任意参数都安全的命令');
+}
+
+function testCurlWgetSort() {
+  expectSafe([
+    'curl https://example.com',
+    'curl -sSL https://example.com',
+    'curl -s -H "Accept: application/json" https://example.com',
+    'curl -XGET https://example.com',
+    'curl -sX HEAD https://example.com',
+    'curl -s -w "%{http_code}" https://example.com',
+  ]);
+  expectUnsafe([
+    'curl -o out https://example.com',
+    'curl -sSLo out https://example.com',
+    'curl -D headers.txt https://example.com',
+    'curl --dump-header h https://example.com',
+    'curl --trace t https://example.com',
+    'curl --trace-ascii t https://example.com',
+    'curl --stderr log https://example.com',
+    'curl -c jar https://example.com',
+    'curl --cookie-jar jar https://example.com',
+    'curl -d x=1 https://example.com',
+    'curl -X POST https://example.com',
+    'curl -K cfg',
+    'curl -w "%output{f}x" https://example.com',
+  ]);
+
+  expectSafe(['wget -qO- https://example.com', 'wget -O - https://example.com', 'wget --spider https://example.com', 'wget --output-document=- -nv x']);
+  expectUnsafe([
+    'wget https://example.com',
+    'wget -O file https://example.com',
+    'wget -qO- -o log https://example.com',
+    'wget -qO- --output-file=log https://example.com',
+    'wget -qO- -a log https://example.com',
+    'wget -qO- --append-output log https://example.com',
+    'wget --spider -e robots=off x',
+  ]);
+
+  expectSafe(['sort file', 'sort -rn -k2 file', 'sort -t, -k 3 -u file', 'sort --key=2 -- -weird']);
+  expectUnsafe(['sort -o out file', 'sort --output=out file', 'sort --compress-program=sh file', 'sort --compress-prog=sh file', 'sort -T /tmp file']);
+  console.log('  ✓ curl / wget / sort 选项白名单');
+}
+
+function main() {
+  console.log('=== 安全命令判定测试 ===\n');
+  testParser();
+  testComposition();
+  testRules();
+  testGitGrep();
+  testOptionAllowlists();
+  testXargs();
+  testCurlWgetSort();
+  console.log('\n=== 全部通过 ===');
+}
+
+try {
+  main();
+} catch (err) {
+  console.error('\n❌ 测试失败:');
+  console.error(err);
+  process.exit(1);
+}
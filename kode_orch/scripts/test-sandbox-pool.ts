@@ -0,0 +1,182 @@
+/**
+ * SandboxPool 测试（使用假沙箱，不需要 E2B / Docker）
+ * 运行: npx tsx scripts/test-sandbox-pool.ts
+ */
+
+import assert from 'node:assert/strict';
+import type { Sandbox } from '@shareai-lab/kode-sdk';
+import { SandboxPool, type SandboxPoolConfig, type SandboxSource } from '../src/sandbox/pool.js';
+import type { SandboxOptions } from '../src/sandbox/factory.js';
+
+interface FakeSandbox {
+  id: number;
+  templateId?: string;
+  disposed: boolean;
+  dispose(): Promise<void>;
+}
+
+class FakeSource implements SandboxSource {
+  created: FakeSandbox[] = [];
+  failNext = 0;
+
+  async create(opts: SandboxOptions = {}): Promise<Sandbox> {
+    await sleep(5);
+    if (this.failNext > 0) {
+      this.failNext--;
+      throw new Error('boom');
+    }
+    const sandbox: FakeSandbox = {
+      id: this.created.length + 1,
+      templateId: opts.templateId,
+      disposed: false,
+      async dispose() { this.disposed = true; },
+    };
+    this.created.push(sandbox);
+    return sandbox as unknown as Sandbox;
+  }
+
+  poolKey(opts: SandboxOptions): string | undefined {
+    // Like the factory: sandboxes bound to a per-task workspace are not pooled
+    return opts.workDir ? undefined : `fake:${opts.templateId ?? ''}`;
+  }
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+function poolConfig(overrides: Partial<SandboxPoolConfig> = {}): SandboxPoolConfig {
+  return { size: 2, templates: {}, maxIdleMs: 0, recycle: false, maxUses: 5, ...overrides };
+}
+
+const fake = (sandbox: Sandbox) => sandbox as unknown as FakeSandbox;
+
+async function testWarmAndAcquire() {
+  const source = new FakeSource();
+  const pool = new SandboxPool(source, poolConfig({ templates: { reviewer: 0, tester: 1 } }));
+  pool.warm(['coder', 'reviewer', 'tester']);
+  await sleep(30);
+
+  const keys = pool.metrics().pools.map((p) => `${p.key}=${p.idle}`);
+  assert.deepEqual(keys, ['fake:coder=2', 'fake:tester=1'], '按模板预热，size 为 0 的模板不预热');
+
+  const sandbox = await pool.acquire({ templateId: 'coder', taskId: 't1' });
+  assert.equal(fake(sandbox).templateId, 'coder');
+  let m = pool.metrics();
+  assert.equal(m.hits, 1);
+  assert.equal(m.pools[0].inUse, 1);
+  assert.equal(m.pools[0].creating, 1, '取走后立即补充');
+
+  await sleep(30);
+  assert.equal(pool.metrics().pools[0].idle, 2);
+
+  await pool.release(sandbox, true);
+  assert.equal(fake(sandbox).disposed, true, '未开启 recycle 时用完即销毁');
+  m = pool.metrics();
+  assert.equal(m.pools[0].inUse, 0);
+  assert.equal(m.destroyed, 1);
+  await pool.close();
+  console.log('  ✓ 预热、取用与补充');
+}
+
+async function testMissAndUnpooled() {
+  const source = new FakeSource();
+  const pool = new SandboxPool(source, poolConfig({ size: 1 }));
+  pool.warm(['coder']);
+  await sleep(30);
+
+  await pool.acquire({ templateId: 'coder' });
+  await pool.acquire({ templateId: 'coder' });
+  // The refill started by the first acquire may or may not have finished; either way nothing is lost
+  const m = pool.metrics();
+  assert.equal(m.hits + m.misses, 2);
+  assert.equal(m.pools[0].inUse, 2);
+
+  const own = await pool.acquire({ templateId: 'coder', workDir: '/tmp/ws/t3' });
+  assert.equal(pool.metrics().pools[0].inUse, 2, '独立工作区的沙箱不经过池');
+  await pool.release(own);
+  assert.equal(fake(own).disposed, true);
+
+  const other = await pool.acquire({ templateId: 'researcher' });
+  await pool.release(other);
+  assert.equal(fake(other).disposed, true, '未预热模板的沙箱直接创建和销毁');
+  await pool.close();
+  console.log('  ✓ 未命中与不可池化的沙箱');
+}
+
+async function testRecycle() {
+  const source = new FakeSource();
+  const pool = new SandboxPool(source, poolConfig({ size: 1, recycle: true, maxUses: 2 }));
+  pool.warm(['coder']);
+  await sleep(30);
+
+  const first = await pool.acquire({ templateId: 'coder', userId: 'alice' });
+  // The pool is full again once the refill lands, so there is no room to recycle
+  await sleep(30);
+  await pool.release(first, true);
+  assert.equal(fake(first).disposed, true, '池已满时不回收');
+
+  const a = await pool.acquire({ templateId: 'coder', userId: 'alice' });
+  const b = await pool.acquire({ templateId: 'coder', userId: 'alice' });
+  await pool.release(b, false);
+  assert.equal(fake(b).disposed, true, '失败任务的沙箱不回收');
+
+  await sleep(30);
+  // Taking the idle sandbox leaves room for a recycled one, even with a refill in flight
+  const c = await pool.acquire({ templateId: 'coder', userId: 'alice' });
+  await pool.release(a, true);
+  assert.equal(fake(a).disposed, false, '成功任务的沙箱放回池中');
+  assert.equal(pool.metrics().recycled, 1);
+
+  await sleep(30);
+  const forBob = await pool.acquire({ templateId: 'coder', userId: 'bob' });
+  assert.notEqual(forBob, a, '回收的沙箱不会交给其他用户');
+  await pool.release(forBob);
+  const again = await pool.acquire({ templateId: 'coder', userId: 'alice' });
+  assert.equal(again, a, '回收的沙箱被同一用户再次取用');
+  await pool.release(c);
+  await pool.release(again, true);
+  assert.equal(fake(a).disposed, true, '达到 maxUses 后销毁');
+  await pool.close();
+  console.log('  ✓ 回收（按用户隔离）与 maxUses');
+}
+
+async function testExpiryAndFailures() {
+  const source = new FakeSource();
+  source.failNext = 1;
+  const pool = new SandboxPool(source, poolConfig({ size: 1, maxIdleMs: 60 }));
+  pool.warm(['coder']);
+  await sleep(20);
+  let m = pool.metrics();
+  assert.equal(m.createFailures, 1);
+  assert.equal(m.pools[0].idle, 0);
+
+  // The sweep retries the failed creation, then replaces the idle sandbox once it is too old
+  await sleep(60);
+  const retried = source.created[0];
+  assert.ok(retried, '失败后由定时清理重试');
+  await sleep(120);
+  m = pool.metrics();
+  assert.ok(m.expired >= 1, '空闲过久的沙箱被替换');
+  assert.equal(retried.disposed, true);
+  assert.equal(m.pools[0].idle + m.pools[0].creating, 1);
+
+  await pool.close();
+  assert.ok(source.created.every((s) => s.disposed), 'close 销毁所有空闲沙箱');
+  console.log('  ✓ 空闲过期与创建失败重试');
+}
+
+async function main() {
+  console.log('=== SandboxPool 测试 ===\n');
+  await testWarmAndAcquire();
+  await testMissAndUnpooled();
+  await testRecycle();
+  await testExpiryAndFailures();
+  console.log('\n=== 全部通过 ===');
+}
+
+main().catch((err) => {
+  console.error('\n❌ 测试失败:');
+  console.error(err);
+  process.exit(1);
+});
@@ -6,5 +6,5 @@ export const analystTemplate: AgentTemplateDefinition = {
 根据调研结果和用户需求，制定详细的执行方案。
 返回分析结论和方案建议，不要描述你的推导过程或思考步骤。
 只输出最终分析结果。`,
-  tools: ['fs_read', 'fs_glob', 'fs_grep'],
+  tools: ['fs_read', 'fs_glob', 'fs_grep', 'report_progress'],
 };
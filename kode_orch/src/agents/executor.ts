@@ -15,9 +15,10 @@ export const executorTemplate: AgentTemplateDefinition = {
 ⚠️ 不要使用 localhost 地址！必须调用 sandbox_preview 获取真正的公开 URL。
 
 完成后返回交付清单（文件路径 + 简要说明），不要描述实现过程。`,
-  tools: ['fs_read', 'fs_write', 'fs_edit', 'fs_multi_edit', 'fs_glob', 'fs_grep', 'bash_run', 'bash_logs', 'bash_kill', 'sandbox_preview'],
+  tools: ['fs_read', 'fs_write', 'fs_edit', 'fs_multi_edit', 'fs_glob', 'fs_grep', 'bash_run', 'bash_logs', 'bash_kill', 'sandbox_preview', 'report_progress'],
   permission: {
     mode: 'auto',
-    requireApprovalTools: ['bash_run'],
+    // 修改文件也经过审批策略，审批界面附带 diff 预览
+    requireApprovalTools: ['bash_run', 'fs_write', 'fs_edit', 'fs_multi_edit'],
   },
 };
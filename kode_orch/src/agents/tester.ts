@@ -6,7 +6,7 @@ export const testerTemplate: AgentTemplateDefinition = {
 根据任务要求，编写并运行测试，验证交付物是否符合预期。
 返回测试报告：通过/失败 + 测试用例 + 失败详情。
 不要描述你的测试过程，只输出测试结果。`,
-  tools: ['fs_read', 'fs_glob', 'fs_grep', 'bash_run', 'bash_logs', 'bash_kill'],
+  tools: ['fs_read', 'fs_glob', 'fs_grep', 'bash_run', 'bash_logs', 'bash_kill', 'report_progress'],
   permission: {
     mode: 'auto',
     requireApprovalTools: ['bash_run'],
@@ -1,5 +1,5 @@
 export interface ParsedCommand {
-  type: 'confirm' | 'cancel' | 'status' | 'history' | 'help';
+  type: 'confirm' | 'cancel' | 'status' | 'history' | 'remember' | 'forget' | 'prefs' | 'help';
   args: string[];
 }
 
@@ -8,6 +8,9 @@ const COMMAND_MAP: Record<string, ParsedCommand['type']> = {
   '/cancel': 'cancel',
   '/status': 'status',
   '/history': 'history',
+  '/remember': 'remember',
+  '/forget': 'forget',
+  '/prefs': 'prefs',
   '/help': 'help',
 };
 
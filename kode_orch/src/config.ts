@@ -14,6 +14,8 @@ export interface PgConfig {
 export interface AppConfig {
   port: number;
   authToken: string;
+  // 本地沙箱预览经 /preview/:taskId/ 代理，返回给用户的 URL 以此为前缀
+  previewBaseUrl: string;
 
   anthropic?: { apiKey: string; baseUrl?: string; modelId: string };
   openai?: { apiKey: string; baseUrl?: string; modelId: string };
@@ -28,9 +30,41 @@ export interface AppConfig {
   // 向量检索集合名（可选，不配置则跳过向量检索）
   vectorCollection?: string;
 
+  // 向量检索的 Embedding（local 为离线哈希 n-gram，openai 复用 OpenAI 兼容接口）
+  embedding: {
+    provider: 'local' | 'openai';
+    model?: string;
+    dimensions: number;
+    vectorWeight: number;         // 混合排序：向量相似度权重
+    textWeight: number;           // 混合排序：全文检索权重
+  };
+
   sandbox: {
-    kind: 'local' | 'e2b';
+    kind: 'local' | 'e2b' | 'docker';
     workDir: string;
+    // 本地 / docker 沙箱的子任务工作区：shared 为所有任务共用 workDir，其余模式每个任务一个独立目录
+    workspaces: {
+      mode: 'shared' | 'fresh' | 'copy' | 'worktree';
+      root: string;
+      retention: 'keep' | 'delete' | 'delete_on_success';
+      retentionMs: number;        // 任务结束后多久删除
+    };
+    // docker：每个任务一个本地容器，工作区挂载到容器内同一路径
+    docker: {
+      image: string;
+      images: Record<string, string>;   // 模板 ID 或 Skill 名 -> 镜像，Skill 优先
+      cpus?: string;
+      memory?: string;
+      network: string;                  // none 为断网
+    };
+    // 预热沙箱池：按沙箱类型和模板保留若干已初始化的沙箱，任务启动时直接取用
+    pool: {
+      size: number;                     // 每个模板保留的空闲沙箱数，0 为关闭
+      templates: Record<string, number>; // 按模板覆盖 size
+      maxIdleMs: number;                // 空闲超过该时长的沙箱被替换（应小于 E2B 超时）
+      recycle: boolean;                 // 任务成功完成后沙箱放回池中复用（会保留上个任务的文件）
+      maxUses: number;                  // 单个沙箱最多服务的任务数
+    };
     e2b?: {
       apiKey: string;
       template?: string;
@@ -43,6 +77,47 @@ export interface AppConfig {
     enabled: boolean;
   };
 
+  // 意图预路由（便宜模型分类，闲聊快速通道 / 高置信度直接派发）
+  intent: {
+    enabled: boolean;
+    modelId?: string;             // 不配置则使用主模型
+    confidenceThreshold: number;
+    directDispatch: boolean;
+  };
+
+  // 多会话：每个会话一个编排器 Agent，空闲超时后从内存中卸载（可随时从存储恢复）
+  sessions: {
+    idleTimeoutMs: number;
+  };
+
+  // 上下文压缩前的关键信息提取
+  compaction: {
+    llmExtraction: boolean;       // false 时只用规则提取
+    modelId?: string;             // 不配置则使用主模型
+    schemaFile?: string;          // 提取 schema（JSON），不配置则使用内置默认值
+  };
+
+  // 审批：列出的危险工具需要两位不同的审批人同意；超时无人处理时按默认结果答复
+  approvals: {
+    twoPersonTools: string[];
+    ttlMs: number;
+    reminderMs: number;               // 到期前多久发送提醒
+    expireOutcome: 'allow' | 'deny';  // 两人审批的工具到期一律拒绝
+  };
+
+  // 工具调用审批策略（YAML/JSON 规则文件，修改后自动重新加载；不配置则使用内置默认策略）
+  policy: {
+    file?: string;
+  };
+
+  // 任务产物：子任务新建或修改的文件在任务完成后复制到 FILE_STORE_DIR/artifacts
+  artifacts: {
+    enabled: boolean;
+    maxFiles: number;
+    maxFileBytes: number;
+    maxTotalBytes: number;
+  };
+
   bgTasks: {
     maxConcurrent: number;
     defaultIdleTimeoutMs: number;
@@ -63,12 +138,28 @@ function envOpt(key: string): string | undefined {
   return val !== undefined && val !== '' ? val : undefined;
 }
 
+/**
+ * "research-agent=python:3.12,webapp-testing=node:20" -> { 'research-agent': 'python:3.12', 'webapp-testing': 'node:20' }
+ */
+function parseMap(value: string): Record<string, string> {
+  const map: Record<string, string> = {};
+  for (const entry of value.split(',')) {
+    const idx = entry.indexOf('=');
+    if (idx <= 0) continue;
+    const key = entry.slice(0, idx).trim();
+    const image = entry.slice(idx + 1).trim();
+    if (key && image) map[key] = image;
+  }
+  return map;
+}
+
 export function loadConfig(): AppConfig {
   const primary = env('PRIMARY_PROVIDER', 'anthropic') as AppConfig['primaryProvider'];
 
   const config: AppConfig = {
     port: parseInt(env('PORT', '3000'), 10),
     authToken: env('AUTH_TOKEN'),
+    previewBaseUrl: env('PREVIEW_BASE_URL', `http://localhost:${env('PORT', '3000')}`),
     primaryProvider: primary,
 
     postgres: {
@@ -82,9 +173,39 @@ export function loadConfig(): AppConfig {
 
     vectorCollection: envOpt('VECTOR_COLLECTION'),
 
+    embedding: {
+      provider: (env('EMBEDDING_PROVIDER', 'local') as 'local' | 'openai'),
+      model: envOpt('EMBEDDING_MODEL'),
+      dimensions: parseInt(env('EMBEDDING_DIMENSIONS', '1536'), 10),
+      vectorWeight: parseFloat(env('MEMORY_VECTOR_WEIGHT', '0.7')),
+      textWeight: parseFloat(env('MEMORY_TEXT_WEIGHT', '0.3')),
+    },
+
     sandbox: {
-      kind: (env('SANDBOX_KIND', 'local') as 'local' | 'e2b'),
+      kind: (env('SANDBOX_KIND', 'local') as AppConfig['sandbox']['kind']),
       workDir: env('SANDBOX_WORK_DIR', './workspace'),
+      workspaces: {
+        mode: (env('WORKSPACE_MODE', 'shared') as AppConfig['sandbox']['workspaces']['mode']),
+        root: env('WORKSPACE_ROOT', './workspaces'),
+        retention: (env('WORKSPACE_RETENTION', 'delete_on_success') as AppConfig['sandbox']['workspaces']['retention']),
+        retentionMs: parseInt(env('WORKSPACE_RETENTION_MS', '3600000'), 10),
+      },
+      docker: {
+        image: env('DOCKER_IMAGE', 'node:20-bookworm'),
+        images: parseMap(envOpt('DOCKER_IMAGES') ?? ''),
+        cpus: envOpt('DOCKER_CPUS'),
+        memory: envOpt('DOCKER_MEMORY'),
+        network: env('DOCKER_NETWORK', 'none'),
+      },
+      pool: {
+        size: parseInt(env('SANDBOX_POOL_SIZE', '0'), 10),
+        templates: Object.fromEntries(
+          Object.entries(parseMap(envOpt('SANDBOX_POOL_TEMPLATES') ?? '')).map(([id, n]) => [id, parseInt(n, 10) || 0]),
+        ),
+        maxIdleMs: parseInt(env('SANDBOX_POOL_MAX_IDLE_MS', '240000'), 10),
+        recycle: env('SANDBOX_POOL_RECYCLE', 'false') === 'true',
+        maxUses: parseInt(env('SANDBOX_POOL_MAX_USES', '5'), 10),
+      },
     },
 
     progress: {
@@ -92,6 +213,41 @@ export function loadConfig(): AppConfig {
       intervalMs: parseInt(env('PROGRESS_INTERVAL_MS', '15000'), 10),
     },
 
+    intent: {
+      enabled: env('INTENT_ROUTER_ENABLED', 'false') === 'true',
+      modelId: envOpt('INTENT_MODEL_ID'),
+      confidenceThreshold: parseFloat(env('INTENT_CONFIDENCE_THRESHOLD', '0.8')),
+      directDispatch: env('INTENT_DIRECT_DISPATCH', 'false') === 'true',
+    },
+
+    sessions: {
+      idleTimeoutMs: parseInt(env('SESSION_IDLE_TIMEOUT_MS', '1800000'), 10),
+    },
+
+    compaction: {
+      llmExtraction: env('COMPACTION_LLM_EXTRACTION', 'true') === 'true',
+      modelId: envOpt('COMPACTION_MODEL_ID'),
+      schemaFile: envOpt('COMPACTION_SCHEMA_FILE'),
+    },
+
+    approvals: {
+      twoPersonTools: (envOpt('APPROVAL_TWO_PERSON_TOOLS') ?? '').split(',').map((t) => t.trim()).filter(Boolean),
+      ttlMs: parseInt(env('APPROVAL_TTL_MS', '600000'), 10),
+      reminderMs: parseInt(env('APPROVAL_REMINDER_MS', '60000'), 10),
+      expireOutcome: env('APPROVAL_EXPIRE_OUTCOME', 'deny') === 'allow' ? 'allow' : 'deny',
+    },
+
+    policy: {
+      file: envOpt('POLICY_FILE'),
+    },
+
+    artifacts: {
+      enabled: env('ARTIFACTS_ENABLED', 'true') === 'true',
+      maxFiles: parseInt(env('ARTIFACT_MAX_FILES', '200'), 10),
+      maxFileBytes: parseInt(env('ARTIFACT_MAX_FILE_BYTES', '10485760'), 10),
+      maxTotalBytes: parseInt(env('ARTIFACT_MAX_TOTAL_BYTES', '104857600'), 10),
+    },
+
     bgTasks: {
       maxConcurrent: parseInt(env('BG_MAX_CONCURRENT', '5'), 10),
       defaultIdleTimeoutMs: parseInt(env('BG_IDLE_TIMEOUT_MS', '120000'), 10),
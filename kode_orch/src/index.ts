@@ -1,37 +1,59 @@
+import { join } from 'node:path';
 import { AgentTemplateRegistry, SandboxFactory, AnthropicProvider, OpenAIProvider, GeminiProvider, type ModelProvider, globalToolRegistry } from '@shareai-lab/kode-sdk';
 import { loadConfig, type AppConfig } from './config.js';
 import { initStore } from './memory/store.js';
 import { UserProfile } from './memory/user-profile.js';
 import { TaskHistory } from './memory/task-history.js';
+import { BgTaskStore } from './memory/bg-task-store.js';
+import { SessionStore } from './memory/session-store.js';
+import { UserStore } from './memory/user-store.js';
+import { ApprovalGrantStore, type ApprovalGrant } from './memory/approval-grant-store.js';
+import { ApprovalAuditStore } from './memory/approval-audit-store.js';
+import { ArtifactStore } from './memory/artifact-store.js';
 import { VectorStore } from './memory/vector-store.js';
+import { createEmbedder } from './memory/embedder.js';
 import { MemoryManager } from './memory/memory-manager.js';
 import { CompactionHandler } from './memory/compaction-handler.js';
+import { LlmExtractor, loadExtractionSchema } from './memory/extraction.js';
 import { SkillLoader } from './orchestrator/skill-loader.js';
 import { TaskManager } from './orchestrator/task-manager.js';
 import { ApprovalManager } from './orchestrator/approval.js';
-import { ProgressTracker } from './orchestrator/progress-tracker.js';
+import { ProgressTracker, PLAN_PROGRESS_ID } from './orchestrator/progress-tracker.js';
 import { BgTaskRunner } from './orchestrator/bg-task-runner.js';
 import { AppSandboxFactory } from './sandbox/factory.js';
+import { WorkspaceManager } from './sandbox/workspace.js';
+import { SandboxPool } from './sandbox/pool.js';
 import { registerAllTemplates } from './agents/templates.js';
-import { createOrchestrator, SUB_AGENT_TEMPLATES } from './orchestrator/main-agent.js';
+import { createOrchestrator, resumeOrchestrator, SUB_AGENT_TEMPLATES } from './orchestrator/main-agent.js';
 import { registerBgTaskTools } from './tools/bg-task-run.js';
-import { registerSandboxPreviewTool } from './tools/sandbox-preview.js';
-import { ChatLock } from './orchestrator/chat-lock.js';
-import { InjectionQueue } from './orchestrator/injection-queue.js';
-import { isSafeCommand } from './orchestrator/safe-commands.js';
+import { registerSandboxPreviewTool, getSandboxForAgent } from './tools/sandbox-preview.js';
+import { registerReportProgressTool } from './tools/report-progress.js';
+import { SessionManager } from './orchestrator/session-manager.js';
+import { PolicyEngine } from './orchestrator/policy.js';
+import { analyzeCommandInput, extractCommand } from './orchestrator/safe-commands.js';
+import { approvalDiff, type FileDiff } from './orchestrator/diff-preview.js';
+import { IntentRouter } from './orchestrator/intent.js';
 import { SSEManager } from './server/sse.js';
+import { Authenticator } from './server/auth.js';
 import { startServer } from './server/http-server.js';
 import { logger } from './utils/logger.js';
 
-function createProvider(config: AppConfig): ModelProvider {
+const TASK_OUTPUT_EVENTS = {
+  text: 'task_text',
+  thinking: 'task_thinking',
+  tool_start: 'task_tool_start',
+  tool_end: 'task_tool_end',
+} as const;
+
+function createProvider(config: AppConfig, modelId?: string): ModelProvider {
   const p = config.primaryProvider;
   switch (p) {
     case 'anthropic':
-      return new AnthropicProvider(config.anthropic!.apiKey, config.anthropic!.modelId, config.anthropic!.baseUrl);
+      return new AnthropicProvider(config.anthropic!.apiKey, modelId ?? config.anthropic!.modelId, config.anthropic!.baseUrl);
     case 'openai':
-      return new OpenAIProvider(config.openai!.apiKey, config.openai!.modelId, config.openai!.baseUrl);
+      return new OpenAIProvider(config.openai!.apiKey, modelId ?? config.openai!.modelId, config.openai!.baseUrl);
     case 'gemini':
-      return new GeminiProvider(config.gemini!.apiKey, config.gemini!.modelId);
+      return new GeminiProvider(config.gemini!.apiKey, modelId ?? config.gemini!.modelId);
     default:
       throw new Error(`Unknown provider: ${p}`);
   }
@@ -49,6 +71,9 @@ async function main(): Promise<void> {
   const { sdkStore, pool } = await initStore(config.postgres, config.fileStoreDir);
 
   // 4. Initialize business objects (all using shared pg pool)
+  const userStore = new UserStore(pool);
+  await userStore.ensureDefaultUser();
+  const grantStore = new ApprovalGrantStore(pool);
   const userProfile = new UserProfile(pool);
   const taskHistory = new TaskHistory(pool);
   const taskManager = new TaskManager(taskHistory);
@@ -56,9 +81,21 @@ async function main(): Promise<void> {
   // 5. Initialize vector store (optional, same pg pool)
   let vectorStore: VectorStore | null = null;
   if (config.vectorCollection) {
-    vectorStore = new VectorStore(pool, { collection: config.vectorCollection });
+    vectorStore = new VectorStore(pool, {
+      collection: config.vectorCollection,
+      embedder: createEmbedder({
+        ...config.embedding,
+        apiKey: config.openai?.apiKey,
+        baseUrl: config.openai?.baseUrl,
+      }),
+      vectorWeight: config.embedding.vectorWeight,
+      textWeight: config.embedding.textWeight,
+    });
     try {
       await vectorStore.init();
+      // Migrate rows written before search tokens / embeddings existed without delaying startup
+      vectorStore.backfillSearchTokens().catch((err) => logger.warn('main', 'Search token backfill failed', err));
+      vectorStore.backfillEmbeddings().catch((err) => logger.warn('main', 'Embedding backfill failed', err));
     } catch (err) {
       logger.warn('main', 'Vector store init failed, continuing without it', err);
       vectorStore = null;
@@ -84,14 +121,86 @@ async function main(): Promise<void> {
 
   // 11. Create progress tracker
   const progressTracker = new ProgressTracker(config.progress.intervalMs, (info) => {
-    sseManager.send({ type: 'progress', data: info });
+    sseManager.send({ type: 'task_progress', data: info });
   });
 
   // 12. Create approval manager (before BgTaskRunner since onPermission uses it)
-  const approvalManager = new ApprovalManager();
+  const auditStore = new ApprovalAuditStore(pool);
+  const audit = (entry: Parameters<ApprovalAuditStore['record']>[0]) => {
+    auditStore.record(entry).catch((err) => logger.warn('main', 'Failed to write approval audit', { permissionId: entry.permissionId, error: String(err) }));
+  };
+  const approvalManager = new ApprovalManager(config.approvals);
+  approvalManager.setDecisionListener((approval, record, final) => {
+    audit({
+      taskId: approval.taskId,
+      userId: approval.userId,
+      permissionId: approval.permissionId,
+      toolName: approval.toolName,
+      input: approval.inputPreview,
+      policyAction: approval.policy?.action,
+      policyRule: approval.policy?.rule,
+      policyReason: approval.policy?.reason,
+      source: record.expired ? 'expired' : 'human',
+      decision: record.decision,
+      final,
+      note: record.note,
+      deciderId: record.actor.id,
+      deciderName: record.actor.name,
+      requestedAt: approval.createdAt,
+      decidedAt: record.decidedAt,
+    });
+    if (record.expired) {
+      sseManager.send({
+        type: 'approval_expired',
+        data: {
+          taskId: approval.taskId,
+          userId: approval.userId,
+          permissionId: approval.permissionId,
+          toolName: approval.toolName,
+          decision: record.decision,
+          note: record.note,
+        },
+      });
+      if (record.decision === 'deny') bgTaskRunner.expireApproval(approval.taskId, approval.toolName);
+      return;
+    }
+    sseManager.send({
+      type: 'approval_decided',
+      data: {
+        taskId: approval.taskId,
+        userId: approval.userId,
+        permissionId: approval.permissionId,
+        toolName: approval.toolName,
+        decision: record.decision,
+        actor: record.actor,
+        note: record.note,
+        final,
+        approvals: approval.decisions.filter((d) => d.decision === 'allow').length,
+        requiredApprovals: approval.requiredApprovals,
+      },
+    });
+  });
+  approvalManager.setReminderListener((approval) => {
+    sseManager.send({
+      type: 'approval_reminder',
+      data: {
+        taskId: approval.taskId,
+        userId: approval.userId,
+        permissionId: approval.permissionId,
+        toolName: approval.toolName,
+        expiresAt: approval.expiresAt,
+        expireOutcome: approval.expireOutcome,
+      },
+    });
+  });
+
+  // Approval policy (rules file is watched and hot-reloaded)
+  const policyEngine = new PolicyEngine(config.policy.file);
+  await policyEngine.load();
+  policyEngine.watch();
 
   // 13. Register sandbox_preview tool + Create BgTaskRunner
-  registerSandboxPreviewTool();
+  registerSandboxPreviewTool({ previewBaseUrl: config.previewBaseUrl, reservedPorts: [config.port, config.postgres.port ?? 5432] });
 
   const bgDeps = {
     store: sdkStore,
@@ -100,103 +209,232 @@ async function main(): Promise<void> {
     sandboxFactory: new SandboxFactory(),
   };
   const bgTaskRunner = new BgTaskRunner(bgDeps, provider, sandboxFactory, (task) => {
+    taskManager.recordBgTask(task);
     sseManager.send({
       type: 'progress',
       data: {
         taskId: task.id,
+        sessionId: task.sessionId,
+        userId: task.userId,
         templateId: task.templateId,
         status: task.status,
         description: task.description,
         result: task.result,
         error: task.error,
         cancelReason: task.cancelReason,
+        statusReason: task.statusReason,
         sandboxUrl: task.sandboxUrl,
         sandboxAlive: task.sandboxAlive,
+        artifactCount: task.artifactCount,
+        dependsOn: task.dependsOn,
         elapsed: Date.now() - task.startTime,
       },
     });
-  }, (task, event) => {
+  }, async (task, event) => {
     const call = event.call;
 
-    // E2B 沙箱中运行 → 全自动审批（隔离环境，无风险）
-    if (config.sandbox.kind === 'e2b') {
-      logger.info('main', 'E2B sandbox: auto-approved', { taskId: task.id, tool: call.name });
-      event.respond('allow', { note: 'auto-approved: e2b sandbox' });
+    // 策略引擎决定：allow / deny 直接答复，ask 进入人工审批
+    const verdict = policyEngine.evaluate({
+      toolName: call.name,
+      input: call.inputPreview,
+      templateId: task.templateId,
+      skills: task.skills,
+      sandboxKind: sandboxFactory.kind,
+    });
+    logger.info('main', `Policy: ${verdict.action}`, { taskId: task.id, tool: call.name, rule: verdict.rule });
+    const requestedAt = Date.now();
+    const auditBase = {
+      taskId: task.id,
+      userId: task.userId,
+      permissionId: call.id,
+      toolName: call.name,
+      input: call.inputPreview,
+      policyAction: verdict.action,
+      policyRule: verdict.rule,
+      policyReason: verdict.reason,
+      final: true,
+      requestedAt,
+    };
+    if (verdict.action !== 'ask') {
+      try {
+        await event.respond(verdict.action, { note: `policy ${verdict.rule ?? 'default'}: ${verdict.reason}` });
+      } finally {
+        audit({ ...auditBase, source: 'policy', decision: verdict.action, autoReason: verdict.reason, decidedAt: Date.now() });
+      }
       return;
     }
 
-    // 本地沙箱 → 白名单过滤
-    if (call.name === 'bash_run') {
-      logger.info('main', 'Local sandbox: bash_run permission check', { taskId: task.id, inputPreview: JSON.stringify(call.inputPreview) });
-      if (isSafeCommand(call.inputPreview)) {
-        logger.info('main', 'Auto-approved safe command', { taskId: task.id, tool: call.name });
-        event.respond('allow', { note: 'auto-approved: safe command' });
-        return;
+    // 之前审批时选择了“总是允许”的调用直接放行
+    let grant: ApprovalGrant | undefined;
+    try {
+      grant = await grantStore.findMatch({
+        userId: task.userId,
+        toolName: call.name,
+        taskId: task.id,
+        templateId: task.templateId,
+        command: call.name === 'bash_run' ? extractCommand(call.inputPreview) : null,
+      });
+    } catch (err) {
+      logger.warn('main', 'Grant lookup failed, asking for approval', { taskId: task.id, error: String(err) });
+    }
+    if (grant && !config.approvals.twoPersonTools.includes(call.name)) {
+      logger.info('main', 'Approval grant matched', { taskId: task.id, tool: call.name, grantId: grant.id, scope: grant.scope });
+      try {
+        await event.respond('allow', { note: `grant ${grant.id} (${grant.scope})` });
+      } finally {
+        audit({ ...auditBase, source: 'grant', decision: 'allow', autoReason: `grant ${grant.id} (${grant.scope}) by ${grant.createdBy}`, decidedAt: Date.now() });
       }
+      return;
+    }
+
+    // 修改文件的工具附带 diff 预览，过长时截断，完整内容通过 /api/approval/:id/diff 获取
+    let diff: { diff: FileDiff[]; preview: FileDiff[] } | undefined;
+    try {
+      diff = await approvalDiff(getSandboxForAgent(task.id), call.name, call.inputPreview);
+    } catch (err) {
+      logger.warn('main', 'Diff preview failed', { taskId: task.id, tool: call.name, error: String(err) });
     }
 
-    // 其他情况 → 请求人工审批
-    approvalManager.add({
+    const pending = approvalManager.add({
       taskId: task.id,
+      userId: task.userId,
       permissionId: call.id,
       toolName: call.name,
       inputPreview: call.inputPreview,
       description: `${task.description} → ${call.name}`,
-      createdAt: Date.now(),
+      createdAt: requestedAt,
+      policy: { action: verdict.action, rule: verdict.rule, reason: verdict.reason },
+      diff: diff?.diff,
       respond: event.respond,
-    });
+    }, verdict.expiry);
     sseManager.send({
       type: 'approval_needed',
       data: {
         taskId: task.id,
+        sessionId: task.sessionId,
+        userId: task.userId,
         permissionId: call.id,
         toolName: call.name,
         inputPreview: call.inputPreview,
         description: task.description,
+        policy: { rule: verdict.rule, reason: verdict.reason },
+        commandAnalysis: call.name === 'bash_run' ? analyzeCommandInput(call.inputPreview) : undefined,
+        diff: diff?.preview,
+        diffUrl: diff?.preview.some((f) => f.truncated) ? `/api/approval/${encodeURIComponent(call.id)}/diff` : undefined,
+        requiredApprovals: pending.requiredApprovals,
+        expiresAt: pending.expiresAt,
+        expireOutcome: pending.expireOutcome,
       },
     });
   }, config.bgTasks);
-  registerBgTaskTools(bgTaskRunner, SUB_AGENT_TEMPLATES, skillLoader);
+  bgTaskRunner.setTaskStore(new BgTaskStore(pool));
+  // Per-task workspaces need a host directory (local/docker); the orchestrator keeps SANDBOX_WORK_DIR
+  if (sandboxFactory.hasHostWorkspace() && config.sandbox.workspaces.mode !== 'shared') {
+    bgTaskRunner.setWorkspaceManager(new WorkspaceManager(config.sandbox.workspaces, config.sandbox.workDir));
+  }
+  const poolConfig = config.sandbox.pool;
+  const sandboxPool = poolConfig.size > 0 || Object.values(poolConfig.templates).some((n) => n > 0)
+    ? new SandboxPool(sandboxFactory, poolConfig)
+    : undefined;
+  if (sandboxPool) {
+    sandboxPool.warm(SUB_AGENT_TEMPLATES.map((t) => t.id));
+    bgTaskRunner.setSandboxPool(sandboxPool);
+  }
+  const artifactStore = new ArtifactStore(join(config.fileStoreDir, 'artifacts'));
+  if (config.artifacts.enabled) bgTaskRunner.setArtifactStore(artifactStore, config.artifacts);
+  bgTaskRunner.setOutputListener((task, output) => {
+    sseManager.send({ type: TASK_OUTPUT_EVENTS[output.type], data: { taskId: task.id, sessionId: task.sessionId, userId: task.userId, ...output.data } });
+  });
+  if (config.progress.enabled) {
+    bgTaskRunner.setProgressTracker(progressTracker);
+  }
+  registerReportProgressTool(bgTaskRunner);
 
-  // 14. Create ChatLock
-  const chatLock = new ChatLock();
+  // 14. Create compaction handler (wired to each session's orchestrator below)
+  const extractor = config.compaction.llmExtraction
+    ? new LlmExtractor(
+      config.compaction.modelId ? createProvider(config, config.compaction.modelId) : provider,
+      await loadExtractionSchema(config.compaction.schemaFile),
+    )
+    : undefined;
+  const compactionHandler = new CompactionHandler(memoryManager, taskManager, extractor);
 
-  // 15. Create orchestrator agent
+  // 15. Create session manager (one orchestrator agent per session, resumed lazily)
   const sandbox = await sandboxFactory.create();
-  const agent = await createOrchestrator({
+  const orchestratorOpts = {
     sdkStore,
     provider,
     sandbox,
     templateRegistry,
     skillLoader,
     memoryManager,
-  });
-
-  // 16. Create InjectionQueue and wire to BgTaskRunner
-  const injectionQueue = new InjectionQueue(agent, sseManager, chatLock);
-  bgTaskRunner.setInjectionQueue(injectionQueue);
-
-  // 17. Register compaction handler
-  const compactionHandler = new CompactionHandler(memoryManager, taskManager);
-  agent.on('context_compression', async (event: any) => {
-    if (event.phase === 'start') {
-      await compactionHandler.onBeforeCompaction(event.compressedMessages ?? []);
-    } else if (event.phase === 'end') {
-      await compactionHandler.onAfterCompaction(event.summary ?? '');
+  };
+  const sessionManager = new SessionManager(
+    new SessionStore(pool),
+    {
+      create: (agentId) => createOrchestrator(orchestratorOpts, agentId),
+      resume: (agentId) => resumeOrchestrator(orchestratorOpts, agentId),
+    },
+    sseManager,
+    config.sessions.idleTimeoutMs,
+  );
+  sessionManager.setAgentReadyListener((agent, session) => {
+    // Orchestrator todo_write → overall plan progress
+    if (config.progress.enabled) {
+      agent.on('todo_changed', (event: any) => {
+        progressTracker.updatePlan(event.current ?? [], `${PLAN_PROGRESS_ID}:${session.id}`, session.userId);
+      });
     }
+    agent.on('context_compression', async (event: any) => {
+      if (event.phase === 'start') {
+        await compactionHandler.onBeforeCompaction(session.userId, event.compressedMessages ?? []);
+      } else if (event.phase === 'end') {
+        await compactionHandler.onAfterCompaction(session.userId, event.summary ?? '');
+      }
+    });
   });
+  sessionManager.startEviction();
+
+  // 16. Register bg_task_* tools (attributed to the calling session's user) and
+  // route task outcomes to the dispatching session's InjectionQueue
+  registerBgTaskTools(bgTaskRunner, SUB_AGENT_TEMPLATES, skillLoader, (agentId) => sessionManager.originOf(agentId));
+  bgTaskRunner.setInjectionQueueResolver(async (task) => (await sessionManager.getRuntime(task.userId, task.sessionId)).injectionQueue);
+
+  // Resume tasks persisted before the last shutdown (needs the injection queue resolver)
+  await bgTaskRunner.restore();
+  await bgTaskRunner.sweepWorkspaces();
+
+  // 17. Create intent router (optional pre-routing stage for /api/chat)
+  const intentRouter = config.intent.enabled
+    ? new IntentRouter(
+      config.intent.modelId ? createProvider(config, config.intent.modelId) : provider,
+      () => skillLoader.getSummary(),
+      {
+        confidenceThreshold: config.intent.confidenceThreshold,
+        directDispatch: config.intent.directDispatch,
+        agentTypes: SUB_AGENT_TEMPLATES.map((t) => t.id),
+      },
+    )
+    : undefined;
 
   // 18. Start HTTP server
-  startServer(config.port, config.authToken, {
-    agent,
+  startServer(config.port, new Authenticator(config.authToken, userStore), {
+    userStore,
+    policyEngine,
+    sessionManager,
     sdkStore,
     sseManager,
     approvalManager,
+    grantStore,
+    auditStore,
     taskManager,
     progressTracker,
     memoryManager,
+    taskHistory,
     bgTaskRunner,
-    chatLock,
+    sandboxPool,
+    artifactStore,
+    intentRouter,
   });
 
   logger.info('main', 'Orchestrator started successfully');
@@ -0,0 +1,131 @@
+import type pg from 'pg';
+import { generateId } from '../utils/id.js';
+
+/**
+ * policy: decided by a policy rule (e.g. e2b sandbox, safe command) · grant: matched an approval grant
+ * human: an approver's decision · expired: default outcome after the approval TTL
+ */
+export const AUDIT_SOURCES = ['policy', 'grant', 'human', 'expired'] as const;
+export type AuditSource = typeof AUDIT_SOURCES[number];
+
+export interface ApprovalAuditEntry {
+  id: string;
+  taskId: string;
+  userId: string;              // owner of the task
+  permissionId: string;
+  toolName: string;
+  input: unknown;              // the call's full inputPreview
+  policyAction?: string;
+  policyRule?: string;
+  policyReason?: string;
+  source: AuditSource;
+  decision: 'allow' | 'deny';
+  final: boolean;              // false for the first allow of a two-person approval
+  note?: string;
+  autoReason?: string;         // why no human was asked (policy / grant)
+  deciderId?: string;
+  deciderName?: string;
+  requestedAt: number;
+  decidedAt: number;
+  latencyMs: number;
+}
+
+export interface ApprovalAuditQuery {
+  userId?: string;             // omitted: every user
+  taskId?: string;
+  toolName?: string;
+  decision?: 'allow' | 'deny';
+  source?: AuditSource;
+  deciderId?: string;
+  from?: number;               // decided_at >= from (ms)
+  to?: number;                 // decided_at < to (ms)
+  limit?: number;
+}
+
+export const MAX_AUDIT_ROWS = 5000;
+
+export class ApprovalAuditStore {
+  constructor(private pool: pg.Pool) {}
+
+  async record(entry: Omit<ApprovalAuditEntry, 'id' | 'latencyMs'>): Promise<void> {
+    await this.pool.query(
+      `INSERT INTO approval_audit (id, task_id, user_id, permission_id, tool_name, input, policy_action, policy_rule, policy_reason,
+         source, decision, final, note, auto_reason, decider_id, decider_name, requested_at, decided_at, latency_ms)
+       VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15, $16, $17, $18, $19)`,
+      [
+        generateId(),
+        entry.taskId,
+        entry.userId,
+        entry.permissionId,
+        entry.toolName,
+        JSON.stringify(entry.input ?? null),
+        entry.policyAction ?? null,
+        entry.policyRule ?? null,
+        entry.policyReason ?? null,
+        entry.source,
+        entry.decision,
+        entry.final,
+        entry.note ?? null,
+        entry.autoReason ?? null,
+        entry.deciderId ?? null,
+        entry.deciderName ?? null,
+        entry.requestedAt,
+        entry.decidedAt,
+        entry.decidedAt - entry.requestedAt,
+      ],
+    );
+  }
+
+  /**
+   * Newest first.
+   */
+  async query(q: ApprovalAuditQuery): Promise<ApprovalAuditEntry[]> {
+    const limit = Math.min(Math.max(q.limit ?? 100, 1), MAX_AUDIT_ROWS);
+    const conditions: string[] = [];
+    const params: unknown[] = [];
+    const param = (value: unknown) => {
+      params.push(value);
+      return `$${params.length}`;
+    };
+
+    if (q.userId) conditions.push(`user_id = ${param(q.userId)}`);
+    if (q.taskId) conditions.push(`task_id = ${param(q.taskId)}`);
+    if (q.toolName) conditions.push(`tool_name = ${param(q.toolName)}`);
+    if (q.decision) conditions.push(`decision = ${param(q.decision)}`);
+    if (q.source) conditions.push(`source = ${param(q.source)}`);
+    if (q.deciderId) conditions.push(`decider_id = ${param(q.deciderId)}`);
+    if (q.from !== undefined) conditions.push(`decided_at >= ${param(q.from)}`);
+    if (q.to !== undefined) conditions.push(`decided_at < ${param(q.to)}`);
+
+    const where = conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '';
+    const result = await this.pool.query(
+      `SELECT * FROM approval_audit ${where} ORDER BY decided_at DESC, id DESC LIMIT ${param(limit)}`,
+      params,
+    );
+    return result.rows.map(rowToEntry);
+  }
+}
+
+function rowToEntry(row: Record<string, unknown>): ApprovalAuditEntry {
+  return {
+    id: row.id as string,
+    taskId: row.task_id as string,
+    userId: row.user_id as string,
+    permissionId: row.permission_id as string,
+    toolName: row.tool_name as string,
+    input: row.input,
+    policyAction: (row.policy_action as string) ?? undefined,
+    policyRule: (row.policy_rule as string) ?? undefined,
+    policyReason: (row.policy_reason as string) ?? undefined,
+    source: row.source as AuditSource,
+    decision: row.decision as ApprovalAuditEntry['decision'],
+    final: row.final !== false,
+    note: (row.note as string) ?? undefined,
+    autoReason: (row.auto_reason as string) ?? undefined,
+    deciderId: (row.decider_id as string) ?? undefined,
+    deciderName: (row.decider_name as string) ?? undefined,
+    requestedAt: Number(row.requested_at),
+    decidedAt: Number(row.decided_at),
+    latencyMs: Number(row.latency_ms),
+  };
+}
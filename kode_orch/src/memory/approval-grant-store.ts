@@ -0,0 +1,123 @@
+import type pg from 'pg';
+import { generateId } from '../utils/id.js';
+
+/**
+ * command: this exact bash command, for any task of the owner
+ * pattern: bash commands matching a regex, within one task
+ * template: any call of the tool by tasks of one template, until expiresAt
+ */
+export const GRANT_SCOPES = ['command', 'pattern', 'template'] as const;
+export type GrantScope = typeof GRANT_SCOPES[number];
+
+export interface ApprovalGrant {
+  id: string;
+  userId: string;          // owner of the tasks the grant applies to
+  toolName: string;
+  scope: GrantScope;
+  taskId?: string;
+  templateId?: string;
+  command?: string;
+  pattern?: string;
+  createdBy: string;
+  createdAt: number;
+  expiresAt?: number;
+  revokedAt?: number;
+}
+
+/** A tool call awaiting approval, as matched against grants */
+export interface GrantQuery {
+  userId: string;
+  toolName: string;
+  taskId: string;
+  templateId: string;
+  command: string | null;
+}
+
+/**
+ * "Always allow" decisions recorded alongside an approval; consulted before
+ * a new approval is raised.
+ */
+export class ApprovalGrantStore {
+  constructor(private pool: pg.Pool) {}
+
+  async create(grant: Omit<ApprovalGrant, 'id' | 'createdAt' | 'revokedAt'>): Promise<ApprovalGrant> {
+    const created: ApprovalGrant = { ...grant, id: generateId(), createdAt: Date.now() };
+    await this.pool.query(
+      `INSERT INTO approval_grants (id, user_id, tool_name, scope, task_id, template_id, command, pattern, created_by, created_at, expires_at)
+       VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11)`,
+      [
+        created.id, created.userId, created.toolName, created.scope,
+        created.taskId ?? null, created.templateId ?? null, created.command ?? null, created.pattern ?? null,
+        created.createdBy, created.createdAt, created.expiresAt ?? null,
+      ],
+    );
+    return created;
+  }
+
+  /**
+   * Active grants (not revoked, not expired); without a userId, of every user.
+   */
+  async listActive(userId?: string): Promise<ApprovalGrant[]> {
+    const result = await this.pool.query(
+      `SELECT * FROM approval_grants
+       WHERE revoked_at IS NULL AND (expires_at IS NULL OR expires_at > $1) AND ($2::text IS NULL OR user_id = $2)
+       ORDER BY created_at DESC`,
+      [Date.now(), userId ?? null],
+    );
+    return result.rows.map(rowToGrant);
+  }
+
+  async get(id: string): Promise<ApprovalGrant | undefined> {
+    const result = await this.pool.query('SELECT * FROM approval_grants WHERE id = $1', [id]);
+    return result.rows[0] ? rowToGrant(result.rows[0]) : undefined;
+  }
+
+  async revoke(id: string): Promise<boolean> {
+    const result = await this.pool.query(
+      'UPDATE approval_grants SET revoked_at = $2 WHERE id = $1 AND revoked_at IS NULL',
+      [id, Date.now()],
+    );
+    return (result.rowCount ?? 0) > 0;
+  }
+
+  /**
+   * First active grant covering the call, if any.
+   */
+  async findMatch(query: GrantQuery): Promise<ApprovalGrant | undefined> {
+    const result = await this.pool.query(
+      `SELECT * FROM approval_grants
+       WHERE user_id = $1 AND tool_name = $2 AND revoked_at IS NULL AND (expires_at IS NULL OR expires_at > $3)
+       ORDER BY created_at ASC`,
+      [query.userId, query.toolName, Date.now()],
+    );
+    return result.rows.map(rowToGrant).find((grant) => grantCovers(grant, query));
+  }
+}
+
+export function grantCovers(grant: ApprovalGrant, query: GrantQuery): boolean {
+  switch (grant.scope) {
+    case 'command':
+      return query.command !== null && grant.command === query.command;
+    case 'pattern':
+      return grant.taskId === query.taskId && query.command !== null && new RegExp(grant.pattern ?? '(?!)').test(query.command);
+    case 'template':
+      return grant.templateId === query.templateId;
+  }
+}
+
+function rowToGrant(row: Record<string, unknown>): ApprovalGrant {
+  return {
+    id: row.id as string,
+    userId: row.user_id as string,
+    toolName: row.tool_name as string,
+    scope: row.scope as GrantScope,
+    taskId: (row.task_id as string) ?? undefined,
+    templateId: (row.template_id as string) ?? undefined,
+    command: (row.command as string) ?? undefined,
+    pattern: (row.pattern as string) ?? undefined,
+    createdBy: row.created_by as string,
+    createdAt: Number(row.created_at),
+    expiresAt: row.expires_at != null ? Number(row.expires_at) : undefined,
+    revokedAt: row.revoked_at != null ? Number(row.revoked_at) : undefined,
+  };
+}
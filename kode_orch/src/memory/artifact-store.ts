@@ -0,0 +1,131 @@
+import { createHash } from 'node:crypto';
+import { mkdir, readFile, rm, writeFile } from 'node:fs/promises';
+import { dirname, join, resolve, sep } from 'node:path';
+import type { WorkspaceSnapshot } from '../sandbox/snapshot.js';
+
+const TASK_ID = /^[\w-]+$/;
+
+export interface ArtifactFile {
+  path: string;                // relative to the task's work dir
+  status: 'created' | 'modified';
+  size: number;
+  sha256: string;
+}
+
+export interface SkippedArtifact {
+  path: string;
+  size: number;
+  reason: string;
+}
+
+export interface ArtifactManifest {
+  taskId: string;
+  userId: string;              // owner of the task
+  collectedAt: number;
+  totalBytes: number;
+  files: ArtifactFile[];
+  skipped: SkippedArtifact[];  // over the size / count limits, or unreadable
+}
+
+/**
+ * Files a task created or changed, kept after its sandbox is gone:
+ * <root>/<taskId>/manifest.json plus the files under <root>/<taskId>/files/.
+ * The workspace snapshot taken when the task started lives next to them.
+ */
+export class ArtifactStore {
+  private readonly root: string;
+
+  constructor(root: string) {
+    this.root = resolve(root);
+  }
+
+  async saveBaseline(taskId: string, snapshot: WorkspaceSnapshot): Promise<void> {
+    await mkdir(this.taskDir(taskId), { recursive: true });
+    await writeFile(join(this.taskDir(taskId), 'baseline.json'), JSON.stringify(snapshot));
+  }
+
+  async loadBaseline(taskId: string): Promise<WorkspaceSnapshot | undefined> {
+    return readJson<WorkspaceSnapshot>(join(this.taskDir(taskId), 'baseline.json'));
+  }
+
+  /** For tasks that ended without completing: nothing will be collected */
+  async discardBaseline(taskId: string): Promise<void> {
+    await rm(this.taskDir(taskId), { recursive: true, force: true });
+  }
+
+  /**
+   * Write the collected files and their manifest; the baseline is no longer needed afterwards.
+   */
+  async save(
+    taskId: string,
+    userId: string,
+    files: Array<{ path: string; status: ArtifactFile['status']; data: Buffer }>,
+    skipped: SkippedArtifact[],
+  ): Promise<ArtifactManifest> {
+    const dir = this.taskDir(taskId);
+    const entries: ArtifactFile[] = [];
+    for (const file of files) {
+      const target = this.filePath(taskId, file.path);
+      if (!target) {
+        skipped.push({ path: file.path, size: file.data.length, reason: '路径超出工作区' });
+        continue;
+      }
+      await mkdir(dirname(target), { recursive: true });
+      await writeFile(target, file.data);
+      entries.push({
+        path: file.path,
+        status: file.status,
+        size: file.data.length,
+        sha256: createHash('sha256').update(file.data).digest('hex'),
+      });
+    }
+
+    const manifest: ArtifactManifest = {
+      taskId,
+      userId,
+      collectedAt: Date.now(),
+      totalBytes: entries.reduce((sum, f) => sum + f.size, 0),
+      files: entries,
+      skipped,
+    };
+    await mkdir(dir, { recursive: true });
+    await writeFile(join(dir, 'manifest.json'), JSON.stringify(manifest, null, 2));
+    await rm(join(dir, 'baseline.json'), { force: true });
+    return manifest;
+  }
+
+  async getManifest(taskId: string): Promise<ArtifactManifest | undefined> {
+    // Task ids come from request paths
+    if (!TASK_ID.test(taskId)) return undefined;
+    return readJson<ArtifactManifest>(join(this.taskDir(taskId), 'manifest.json'));
+  }
+
+  /**
+   * Contents of a file listed in the task's manifest.
+   */
+  async readFile(manifest: ArtifactManifest, path: string): Promise<Buffer | undefined> {
+    if (!manifest.files.some((f) => f.path === path)) return undefined;
+    const target = this.filePath(manifest.taskId, path);
+    return target ? readFile(target) : undefined;
+  }
+
+  private taskDir(taskId: string): string {
+    return join(this.root, taskId);
+  }
+
+  /** undefined when the path would escape the task's files dir */
+  private filePath(taskId: string, path: string): string | undefined {
+    const base = join(this.taskDir(taskId), 'files');
+    const target = resolve(base, path);
+    return target.startsWith(base + sep) ? target : undefined;
+  }
+}
+
+async function readJson<T>(path: string): Promise<T | undefined> {
+  try {
+    return JSON.parse(await readFile(path, 'utf8')) as T;
+  } catch (err) {
+    if ((err as NodeJS.ErrnoException).code === 'ENOENT') return undefined;
+    throw err;
+  }
+}
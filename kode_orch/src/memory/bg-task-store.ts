@@ -0,0 +1,106 @@
+import type pg from 'pg';
+import type { BgTask } from '../orchestrator/bg-task-runner.js';
+
+/**
+ * Persists BgTaskRunner state so queued/running sub-agents survive a restart.
+ * The pending queue is not stored separately: it is every row with status
+ * 'queued', loaded in enqueued_at order and re-sorted by priority on restore
+ * ('blocked' rows wait on dependsOn).
+ */
+export class BgTaskStore {
+  constructor(private pool: pg.Pool) {}
+
+  async save(task: BgTask): Promise<void> {
+    await this.pool.query(
+      `INSERT INTO bg_tasks (id, template_id, description, status, priority, prompt, skills, retry_count, redo_history,
+         resource_limits, resource_usage, result, error, cancel_reason, sandbox_url, start_time, last_activity_time,
+         enqueued_at, updated_at, depends_on, pipe_results, parent_task_id, lineage, session_id, user_id, status_reason,
+         workspace, workspace_from, artifact_count)
+       VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15, $16, $17, $18, $19, $20, $21, $22, $23, $24, $25, $26, $27, $28, $29)
+       ON CONFLICT(id) DO UPDATE SET
+         status = $4, resource_limits = $10, resource_usage = $11, result = $12, error = $13,
+         cancel_reason = $14, sandbox_url = $15, start_time = $16, last_activity_time = $17, updated_at = $19,
+         status_reason = $26, workspace = $27, artifact_count = $29`,
+      [
+        task.id,
+        task.templateId,
+        task.description,
+        task.status,
+        task.priority,
+        task.prompt,
+        JSON.stringify(task.skills),
+        task.retryCount,
+        JSON.stringify(task.redoHistory),
+        JSON.stringify(task.resourceLimits),
+        JSON.stringify(task.resourceUsage),
+        task.result ?? null,
+        task.error ?? null,
+        task.cancelReason ?? null,
+        task.sandboxUrl ?? null,
+        task.startTime,
+        task.lastActivityTime,
+        task.startTime,
+        Date.now(),
+        JSON.stringify(task.dependsOn),
+        task.pipeResults,
+        task.parentTaskId ?? null,
+        task.lineage ?? null,
+        task.sessionId ?? null,
+        task.userId,
+        task.statusReason ?? null,
+        task.workspace ?? null,
+        task.workspaceFrom ?? null,
+        task.artifactCount ?? null,
+      ],
+    );
+  }
+
+  async getById(id: string): Promise<BgTask | undefined> {
+    const result = await this.pool.query('SELECT * FROM bg_tasks WHERE id = $1', [id]);
+    return result.rows[0] ? rowToBgTask(result.rows[0]) : undefined;
+  }
+
+  /**
+   * Load tasks in the given statuses, oldest enqueued first.
+   */
+  async loadByStatus(statuses: BgTask['status'][]): Promise<BgTask[]> {
+    if (statuses.length === 0) return [];
+    const result = await this.pool.query(
+      'SELECT * FROM bg_tasks WHERE status = ANY($1) ORDER BY enqueued_at ASC',
+      [statuses],
+    );
+    return result.rows.map(rowToBgTask);
+  }
+}
+
+function rowToBgTask(row: Record<string, unknown>): BgTask {
+  return {
+    id: row.id as string,
+    templateId: row.template_id as string,
+    description: row.description as string,
+    status: row.status as BgTask['status'],
+    priority: row.priority as BgTask['priority'],
+    prompt: row.prompt as string,
+    skills: (row.skills as string[]) ?? [],
+    retryCount: Number(row.retry_count),
+    redoHistory: (row.redo_history as string[]) ?? [],
+    resourceLimits: (row.resource_limits as BgTask['resourceLimits']) ?? {},
+    resourceUsage: (row.resource_usage as BgTask['resourceUsage']) ?? { toolCalls: 0, steps: 0, totalTokens: 0 },
+    result: (row.result as string) ?? undefined,
+    error: (row.error as string) ?? undefined,
+    cancelReason: (row.cancel_reason as string) ?? undefined,
+    statusReason: (row.status_reason as BgTask['statusReason']) ?? undefined,
+    sandboxUrl: (row.sandbox_url as string) ?? undefined,
+    startTime: Number(row.start_time),
+    lastActivityTime: Number(row.last_activity_time),
+    dependsOn: (row.depends_on as string[]) ?? [],
+    pipeResults: row.pipe_results !== false,
+    workspace: (row.workspace as string) ?? undefined,
+    workspaceFrom: (row.workspace_from as string) ?? undefined,
+    artifactCount: row.artifact_count != null ? Number(row.artifact_count) : undefined,
+    parentTaskId: (row.parent_task_id as string) ?? undefined,
+    lineage: (row.lineage as BgTask['lineage']) ?? undefined,
+    sessionId: (row.session_id as string) ?? undefined,
+    userId: row.user_id as string,
+  };
+}
@@ -0,0 +1,129 @@
+import { logger } from '../utils/logger.js';
+
+/**
+ * Turns text into fixed-size vectors for VectorStore.
+ * `id` is stored next to each embedding so vectors from different embedders are never compared.
+ */
+export interface Embedder {
+  readonly id: string;
+  readonly dimensions: number;
+  /** Returns one vector per text, or null when a text has nothing to embed */
+  embed(texts: string[]): Promise<Array<number[] | null>>;
+}
+
+export interface OpenAIEmbedderOptions {
+  apiKey: string;
+  baseUrl?: string;
+  model: string;
+  dimensions: number;
+  batchSize?: number;
+}
+
+/**
+ * Provider-backed embedder using an OpenAI-compatible /embeddings endpoint
+ * (OpenAI, DeepSeek, Qwen/DashScope compatible mode, etc.).
+ */
+export class OpenAIEmbedder implements Embedder {
+  readonly id: string;
+  readonly dimensions: number;
+
+  constructor(private opts: OpenAIEmbedderOptions) {
+    this.id = `openai:${opts.model}:${opts.dimensions}`;
+    this.dimensions = opts.dimensions;
+  }
+
+  async embed(texts: string[]): Promise<Array<number[] | null>> {
+    const batchSize = this.opts.batchSize ?? 64;
+    const out: Array<number[] | null> = [];
+    for (let i = 0; i < texts.length; i += batchSize) {
+      out.push(...await this.embedBatch(texts.slice(i, i + batchSize)));
+    }
+    return out;
+  }
+
+  private async embedBatch(texts: string[]): Promise<Array<number[] | null>> {
+    const baseUrl = (this.opts.baseUrl ?? 'https://api.openai.com/v1').replace(/\/$/, '');
+    const res = await fetch(`${baseUrl}/embeddings`, {
+      method: 'POST',
+      headers: { 'Authorization': `Bearer ${this.opts.apiKey}`, 'Content-Type': 'application/json' },
+      body: JSON.stringify({ model: this.opts.model, input: texts, dimensions: this.opts.dimensions }),
+    });
+    if (!res.ok) {
+      throw new Error(`Embedding request failed: ${res.status} ${await res.text()}`);
+    }
+    const body = await res.json() as { data: Array<{ index: number; embedding: number[] }> };
+    const vectors: Array<number[] | null> = texts.map(() => null);
+    for (const item of body.data) {
+      vectors[item.index] = item.embedding;
+    }
+    return vectors;
+  }
+}
+
+/**
+ * Offline embedder: character 1-3 grams hashed into a signed bag-of-ngrams vector (feature hashing).
+ * No model download; character n-grams work for Chinese text without a segmenter.
+ */
+export class HashedNgramEmbedder implements Embedder {
+  readonly id: string;
+
+  constructor(readonly dimensions: number, private maxN = 3) {
+    this.id = `hashed-ngram:${maxN}:${dimensions}`;
+  }
+
+  async embed(texts: string[]): Promise<Array<number[] | null>> {
+    return texts.map((t) => this.embedOne(t));
+  }
+
+  private embedOne(text: string): number[] | null {
+    const chars = [...text.toLowerCase().replace(/\s+/g, ' ').trim()];
+    if (chars.length === 0) return null;
+
+    const vec = new Array<number>(this.dimensions).fill(0);
+    for (let n = 1; n <= this.maxN; n++) {
+      for (let i = 0; i + n <= chars.length; i++) {
+        const gram = chars.slice(i, i + n).join('');
+        if (gram.trim() === '') continue;
+        const h = fnv1a(gram);
+        vec[h % this.dimensions] += (h & 0x80000000 ? -1 : 1) * n; // longer n-grams carry more signal
+      }
+    }
+
+    const norm = Math.sqrt(vec.reduce((sum, v) => sum + v * v, 0));
+    if (norm === 0) return null;
+    return vec.map((v) => v / norm);
+  }
+}
+
+function fnv1a(s: string): number {
+  let h = 0x811c9dc5;
+  for (let i = 0; i < s.length; i++) {
+    h ^= s.charCodeAt(i);
+    h = Math.imul(h, 0x01000193);
+  }
+  return h >>> 0;
+}
+
+export interface EmbedderConfig {
+  provider: 'local' | 'openai';
+  model?: string;
+  dimensions: number;
+  apiKey?: string;
+  baseUrl?: string;
+}
+
+export function createEmbedder(config: EmbedderConfig): Embedder {
+  if (config.provider === 'openai') {
+    if (!config.apiKey) {
+      logger.warn('embedder', 'EMBEDDING_PROVIDER=openai but no API key, falling back to local embedder');
+    } else {
+      return new OpenAIEmbedder({
+        apiKey: config.apiKey,
+        baseUrl: config.baseUrl,
+        model: config.model ?? 'text-embedding-3-small',
+        dimensions: config.dimensions,
+      });
+    }
+  }
+  return new HashedNgramEmbedder(config.dimensions);
+}
@@ -0,0 +1,200 @@
+import type { ModelProvider } from '@shareai-lab/kode-sdk';
+import { readFile } from 'node:fs/promises';
+import { z } from 'zod';
+import { logger } from '../utils/logger.js';
+
+export interface Message {
+  role: string;
+  content: string;
+}
+
+export interface ActiveTaskInfo {
+  id: string;
+  intent: string;
+}
+
+export interface ExtractionResult {
+  preferences: Array<{ key: string; value: string }>;
+  summary: string;
+  decisions: string[];
+  openQuestions: string[];
+  taskContexts: Array<{ taskId: string; context: string }>;
+}
+
+/**
+ * What the model is asked to extract. Loaded from COMPACTION_SCHEMA_FILE (JSON) when set.
+ */
+export interface ExtractionSchema {
+  // Known preference keys; the model maps what it finds onto these
+  preferenceKeys: Array<{ key: string; description: string }>;
+  // Also accept preference keys outside preferenceKeys
+  allowOtherPreferences: boolean;
+  maxDecisions: number;
+  maxOpenQuestions: number;
+  maxSummaryLength: number;
+}
+
+const extractionSchemaSchema = z.object({
+  preferenceKeys: z.array(z.object({ key: z.string().min(1), description: z.string() })),
+  allowOtherPreferences: z.boolean(),
+  maxDecisions: z.number().int().min(0),
+  maxOpenQuestions: z.number().int().min(0),
+  maxSummaryLength: z.number().int().positive(),
+});
+
+export const DEFAULT_EXTRACTION_SCHEMA: ExtractionSchema = {
+  preferenceKeys: [
+    { key: 'language', description: '回复语言，如 中文、英文' },
+    { key: 'tone', description: '回复风格，如 简洁、详细、正式' },
+    { key: 'code_style', description: '代码风格偏好，如 缩进、命名、框架选择' },
+    { key: 'tech_stack', description: '常用的语言、框架和工具' },
+  ],
+  allowOtherPreferences: true,
+  maxDecisions: 10,
+  maxOpenQuestions: 10,
+  maxSummaryLength: 1000,
+};
+
+const extractionResultSchema = z.object({
+  preferences: z.array(z.object({ key: z.string().min(1), value: z.string().min(1) })).default([]),
+  summary: z.string().default(''),
+  decisions: z.array(z.string()).default([]),
+  openQuestions: z.array(z.string()).default([]),
+  taskContexts: z.array(z.object({ taskId: z.string(), context: z.string() })).default([]),
+});
+
+// Keep the newest part of long transcripts so the prompt stays bounded
+const MAX_TRANSCRIPT_CHARS = 24000;
+const MAX_MESSAGE_CHARS = 2000;
+
+export async function loadExtractionSchema(path?: string): Promise<ExtractionSchema> {
+  if (!path) return DEFAULT_EXTRACTION_SCHEMA;
+  const raw = JSON.parse(await readFile(path, 'utf-8'));
+  return extractionSchemaSchema.parse({ ...DEFAULT_EXTRACTION_SCHEMA, ...raw });
+}
+
+export function buildExtractionPrompt(messages: Message[], activeTasks: ActiveTaskInfo[], schema: ExtractionSchema): string {
+  const prefKeys = schema.preferenceKeys.map((p) => `- ${p.key}: ${p.description}`).join('\n') || '（无预设）';
+  const tasks = activeTasks.map((t) => `- ${t.id}: ${t.intent}`).join('\n') || '（无）';
+
+  return `以下对话即将被压缩，请从中提取需要长期保留的关键信息。
+
+预设的偏好 key：
+${prefKeys}
+${schema.allowOtherPreferences ? '如有其他明确的长期偏好，可使用新的 snake_case key。' : '只能使用上面预设的 key。'}
+
+进行中的任务（taskId: 任务描述）：
+${tasks}
+
+对话内容：
+${formatTranscript(messages)}
+
+提取规则：
+- preferences：用户明确表达的长期偏好，不要猜测
+- summary：对话摘要，不超过 ${schema.maxSummaryLength} 字
+- decisions：已经达成的决定或结论，最多 ${schema.maxDecisions} 条
+- openQuestions：尚未解决的问题或待办，最多 ${schema.maxOpenQuestions} 条
+- taskContexts：与进行中任务相关的上下文，taskId 必须来自上面的列表
+
+只输出一个 JSON 对象，不要输出其他内容：
+{"preferences": [{"key": "...", "value": "..."}], "summary": "...", "decisions": ["..."], "openQuestions": ["..."], "taskContexts": [{"taskId": "...", "context": "..."}]}`;
+}
+
+/**
+ * Parse and normalize model output: enforce schema limits and drop
+ * preferences/task contexts the schema or task list doesn't allow.
+ */
+export function parseExtractionResult(text: string, activeTasks: ActiveTaskInfo[], schema: ExtractionSchema): ExtractionResult {
+  const json = text.match(/\{[\s\S]*\}/);
+  if (!json) throw new Error(`No JSON object in extraction response: ${text.slice(0, 200)}`);
+  const parsed = extractionResultSchema.parse(JSON.parse(json[0]));
+
+  const knownKeys = new Set(schema.preferenceKeys.map((p) => p.key));
+  const taskIds = new Set(activeTasks.map((t) => t.id));
+  return {
+    preferences: parsed.preferences.filter((p) => schema.allowOtherPreferences || knownKeys.has(p.key)),
+    summary: parsed.summary.slice(0, schema.maxSummaryLength),
+    decisions: parsed.decisions.filter(Boolean).slice(0, schema.maxDecisions),
+    openQuestions: parsed.openQuestions.filter(Boolean).slice(0, schema.maxOpenQuestions),
+    taskContexts: parsed.taskContexts.filter((c) => taskIds.has(c.taskId) && c.context),
+  };
+}
+
+/**
+ * Deterministic extraction used when the model call fails or is disabled.
+ */
+export function heuristicExtract(messages: Message[], activeTasks: ActiveTaskInfo[], schema: ExtractionSchema): ExtractionResult {
+  const preferences: ExtractionResult['preferences'] = [];
+  const taskContexts: ExtractionResult['taskContexts'] = [];
+
+  // Build a summary from user messages
+  const userMessages = messages
+    .filter((m) => m.role === 'user')
+    .map((m) => m.content)
+    .join('\n');
+
+  const summary = userMessages.length > schema.maxSummaryLength
+    ? userMessages.slice(0, schema.maxSummaryLength) + '...'
+    : userMessages;
+
+  // Extract simple preference patterns like "请用中文回复"
+  for (const msg of messages) {
+    if (msg.role !== 'user') continue;
+    const langMatch = msg.content.match(/请?用(中文|英文|日文)(?:回复|回答)/);
+    if (langMatch) {
+      preferences.push({ key: 'language', value: langMatch[1] });
+    }
+  }
+
+  // Collect context for active tasks
+  if (activeTasks.length > 0 && messages.length > 0) {
+    const recentContext = messages.slice(-5).map((m) => `${m.role}: ${m.content}`).join('\n');
+    for (const task of activeTasks) {
+      taskContexts.push({ taskId: task.id, context: recentContext });
+    }
+  }
+
+  return { preferences, summary, decisions: [], openQuestions: [], taskContexts };
+}
+
+/**
+ * Model-backed extractor for CompactionHandler. Falls back to heuristicExtract on any failure.
+ */
+export class LlmExtractor {
+  constructor(
+    private provider: ModelProvider,
+    private schema: ExtractionSchema = DEFAULT_EXTRACTION_SCHEMA,
+  ) {}
+
+  async extract(messages: Message[], activeTasks: ActiveTaskInfo[]): Promise<ExtractionResult> {
+    const startedAt = Date.now();
+    try {
+      const response = await this.provider.complete(
+        [{ role: 'user', content: [{ type: 'text', text: buildExtractionPrompt(messages, activeTasks, this.schema) }] }],
+        { maxTokens: 2000 },
+      );
+      const text = response.content
+        .filter((b: any) => b.type === 'text')
+        .map((b: any) => b.text)
+        .join('');
+      const result = parseExtractionResult(text, activeTasks, this.schema);
+      logger.info('extraction', 'LLM extraction complete', { durationMs: Date.now() - startedAt });
+      return result;
+    } catch (err) {
+      logger.warn('extraction', 'LLM extraction failed, using heuristic fallback', { error: String(err) });
+      return heuristicExtract(messages, activeTasks, this.schema);
+    }
+  }
+}
+
+function formatTranscript(messages: Message[]): string {
+  const lines = messages.map((m) => {
+    const content = m.content.length > MAX_MESSAGE_CHARS ? m.content.slice(0, MAX_MESSAGE_CHARS) + '...' : m.content;
+    return `${m.role}: ${content}`;
+  });
+  let transcript = lines.join('\n');
+  if (transcript.length > MAX_TRANSCRIPT_CHARS) {
+    transcript = '...\n' + transcript.slice(-MAX_TRANSCRIPT_CHARS);
+  }
+  return transcript;
+}
@@ -1,18 +1,32 @@
 import { UserProfile } from './user-profile.js';
 import { TaskHistory, type Task } from './task-history.js';
-import { VectorStore, createVectorDocument, type VectorDocument } from './vector-store.js';
+import { VectorStore, createVectorDocument, type VectorDocument, type VectorListFilter } from './vector-store.js';
 import { logger } from '../utils/logger.js';
 
 const MEMORY_CONTEXT_LIMIT = 4000; // tokens (approximate: 1 token ≈ 4 chars)
 const CHARS_PER_TOKEN = 4;
 const MAX_CHARS = MEMORY_CONTEXT_LIMIT * CHARS_PER_TOKEN;
 
+// Pinned memories (/remember) are recalled on every turn regardless of relevance
+export const PINNED_TAG = 'pinned';
+const MAX_PINNED_RECALL = 10;
+
+export class VectorStoreUnavailableError extends Error {
+  constructor() {
+    super('Vector store is not configured (VECTOR_COLLECTION)');
+    this.name = 'VectorStoreUnavailableError';
+  }
+}
+
 export interface MemoryContext {
   preferences: Record<string, string>;
   recentTasks: Task[];
   semanticMemories: VectorDocument[];
 }
 
+/**
+ * All memory is per user: every method takes the owning userId.
+ */
 export class MemoryManager {
   constructor(
     public readonly userProfile: UserProfile,
@@ -20,26 +34,62 @@ export class MemoryManager {
     private vectorStore: VectorStore | null,
   ) {}
 
-  async recall(query: string): Promise<MemoryContext> {
+  async recall(userId: string, query: string): Promise<MemoryContext> {
     const [preferences, recentTasks] = await Promise.all([
-      this.userProfile.getAll(),
-      this.taskHistory.getRecent(5),
+      this.userProfile.getAll(userId),
+      this.taskHistory.getRecent(userId, 5),
     ]);
 
-    const semanticMemories = this.vectorStore
-      ? await this.vectorStore.query(query, 5)
-      : [];
+    const [pinned, related] = this.vectorStore
+      ? await Promise.all([
+          this.vectorStore.list(userId, { tag: PINNED_TAG, limit: MAX_PINNED_RECALL }),
+          this.vectorStore.query(userId, query, 5),
+        ])
+      : [[], []];
+    const pinnedIds = new Set(pinned.map((d) => d.id));
+    const semanticMemories = [...pinned, ...related.filter((d) => !pinnedIds.has(d.id))];
 
     return { preferences, recentTasks, semanticMemories };
   }
 
-  async memorize(content: string, type: VectorDocument['metadata']['type']): Promise<void> {
+  async listDocuments(userId: string, filter: VectorListFilter): Promise<VectorDocument[]> {
+    return this.requireVectorStore().list(userId, filter);
+  }
+
+  async addDocument(
+    userId: string,
+    content: string,
+    type: VectorDocument['metadata']['type'],
+    tags?: string[],
+  ): Promise<VectorDocument> {
+    const doc = createVectorDocument(content, type, tags);
+    await this.requireVectorStore().add(userId, [doc]);
+    return doc;
+  }
+
+  /**
+   * Pin a memory so it is included in every recall.
+   */
+  async remember(userId: string, content: string): Promise<VectorDocument> {
+    return this.addDocument(userId, content, 'user_knowledge', [PINNED_TAG]);
+  }
+
+  async forget(userId: string, ids: string[]): Promise<number> {
+    return this.requireVectorStore().delete(userId, ids);
+  }
+
+  private requireVectorStore(): VectorStore {
+    if (!this.vectorStore) throw new VectorStoreUnavailableError();
+    return this.vectorStore;
+  }
+
+  async memorize(userId: string, content: string, type: VectorDocument['metadata']['type'], tags?: string[]): Promise<void> {
     if (!this.vectorStore) {
       logger.debug('memory-manager', 'Vector store not available, skipping memorize');
       return;
     }
-    const doc = createVectorDocument(content, type);
-    await this.vectorStore.add([doc]);
+    const doc = createVectorDocument(content, type, tags);
+    await this.vectorStore.add(userId, [doc]);
   }
 
   formatContext(memory: MemoryContext): string {
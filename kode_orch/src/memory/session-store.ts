@@ -0,0 +1,69 @@
+import type pg from 'pg';
+
+export interface Session {
+  id: string;
+  userId: string;
+  agentId: string;        // orchestrator Agent id in the SDK store
+  title: string;
+  archived: boolean;
+  createdAt: number;
+  lastActiveAt: number;
+}
+
+export class SessionStore {
+  constructor(private pool: pg.Pool) {}
+
+  async create(session: Session): Promise<void> {
+    await this.pool.query(
+      `INSERT INTO sessions (id, agent_id, title, archived, created_at, last_active_at, user_id)
+       VALUES ($1, $2, $3, $4, $5, $6, $7)`,
+      [session.id, session.agentId, session.title, session.archived, session.createdAt, session.lastActiveAt, session.userId],
+    );
+  }
+
+  async get(id: string): Promise<Session | undefined> {
+    const result = await this.pool.query('SELECT * FROM sessions WHERE id = $1', [id]);
+    return result.rows[0] ? rowToSession(result.rows[0]) : undefined;
+  }
+
+  /**
+   * Most recently active first.
+   */
+  async list(userId: string, includeArchived = false): Promise<Session[]> {
+    const result = await this.pool.query(
+      `SELECT * FROM sessions WHERE user_id = $1 ${includeArchived ? '' : 'AND archived = FALSE'} ORDER BY last_active_at DESC`,
+      [userId],
+    );
+    return result.rows.map(rowToSession);
+  }
+
+  async update(id: string, changes: { title?: string; archived?: boolean }): Promise<Session | undefined> {
+    const result = await this.pool.query(
+      `UPDATE sessions SET title = COALESCE($2, title), archived = COALESCE($3, archived)
+       WHERE id = $1 RETURNING *`,
+      [id, changes.title ?? null, changes.archived ?? null],
+    );
+    return result.rows[0] ? rowToSession(result.rows[0]) : undefined;
+  }
+
+  async touch(id: string, at = Date.now()): Promise<void> {
+    await this.pool.query('UPDATE sessions SET last_active_at = $2 WHERE id = $1', [id, at]);
+  }
+
+  async delete(id: string): Promise<boolean> {
+    const result = await this.pool.query('DELETE FROM sessions WHERE id = $1', [id]);
+    return (result.rowCount ?? 0) > 0;
+  }
+}
+
+function rowToSession(row: Record<string, unknown>): Session {
+  return {
+    id: row.id as string,
+    userId: row.user_id as string,
+    agentId: row.agent_id as string,
+    title: (row.title as string) ?? '',
+    archived: row.archived === true,
+    createdAt: Number(row.created_at),
+    lastActiveAt: Number(row.last_active_at),
+  };
+}
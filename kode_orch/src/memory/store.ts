@@ -4,12 +4,40 @@ import type { PgConfig } from '../config.js';
 import { logger } from '../utils/logger.js';
 
 const EXTRA_TABLES_SQL = `
+CREATE TABLE IF NOT EXISTS users (
+  id TEXT PRIMARY KEY,
+  name TEXT NOT NULL,
+  created_at BIGINT NOT NULL
+);
+
+ALTER TABLE users ADD COLUMN IF NOT EXISTS role TEXT NOT NULL DEFAULT 'operator';
+
+CREATE TABLE IF NOT EXISTS user_tokens (
+  id TEXT PRIMARY KEY,
+  user_id TEXT NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  token_hash TEXT NOT NULL UNIQUE,
+  label TEXT NOT NULL DEFAULT '',
+  created_at BIGINT NOT NULL,
+  last_used_at BIGINT,
+  revoked_at BIGINT
+);
+
 CREATE TABLE IF NOT EXISTS user_preferences (
   key TEXT PRIMARY KEY,
   value TEXT NOT NULL,
   updated_at BIGINT NOT NULL
 );
 
+-- Per-user preferences: existing rows belong to the default user, primary key becomes (user_id, key)
+ALTER TABLE user_preferences ADD COLUMN IF NOT EXISTS user_id TEXT NOT NULL DEFAULT 'default';
+DO $$
+BEGIN
+  IF (SELECT array_length(conkey, 1) FROM pg_constraint WHERE conname = 'user_preferences_pkey') = 1 THEN
+    ALTER TABLE user_preferences DROP CONSTRAINT user_preferences_pkey;
+    ALTER TABLE user_preferences ADD CONSTRAINT user_preferences_pkey PRIMARY KEY (user_id, key);
+  END IF;
+END $$;
+
 CREATE TABLE IF NOT EXISTS task_history (
   id TEXT PRIMARY KEY,
   agent_type TEXT NOT NULL,
@@ -22,12 +50,104 @@ CREATE TABLE IF NOT EXISTS task_history (
   updated_at BIGINT NOT NULL
 );
 
+ALTER TABLE task_history ADD COLUMN IF NOT EXISTS skills JSONB NOT NULL DEFAULT '[]';
+ALTER TABLE task_history ADD COLUMN IF NOT EXISTS resource_usage JSONB;
+ALTER TABLE task_history ADD COLUMN IF NOT EXISTS retry_count INTEGER NOT NULL DEFAULT 0;
+ALTER TABLE task_history ADD COLUMN IF NOT EXISTS parent_task_id TEXT;
+ALTER TABLE task_history ADD COLUMN IF NOT EXISTS lineage TEXT;
+ALTER TABLE task_history ADD COLUMN IF NOT EXISTS user_id TEXT NOT NULL DEFAULT 'default';
+ALTER TABLE task_history ADD COLUMN IF NOT EXISTS cancel_reason TEXT;
+
+CREATE INDEX IF NOT EXISTS idx_task_history_created ON task_history(created_at DESC, id DESC);
+CREATE INDEX IF NOT EXISTS idx_task_history_user ON task_history(user_id, created_at DESC);
+
+CREATE TABLE IF NOT EXISTS bg_tasks (
+  id TEXT PRIMARY KEY,
+  template_id TEXT NOT NULL,
+  description TEXT NOT NULL,
+  status TEXT NOT NULL,
+  priority TEXT NOT NULL,
+  prompt TEXT NOT NULL,
+  skills JSONB NOT NULL DEFAULT '[]',
+  retry_count INTEGER NOT NULL DEFAULT 0,
+  redo_history JSONB NOT NULL DEFAULT '[]',
+  resource_limits JSONB NOT NULL DEFAULT '{}',
+  resource_usage JSONB NOT NULL DEFAULT '{}',
+  result TEXT,
+  error TEXT,
+  cancel_reason TEXT,
+  sandbox_url TEXT,
+  start_time BIGINT NOT NULL,
+  last_activity_time BIGINT NOT NULL,
+  enqueued_at BIGINT NOT NULL,
+  updated_at BIGINT NOT NULL
+);
+
+ALTER TABLE bg_tasks ADD COLUMN IF NOT EXISTS depends_on JSONB NOT NULL DEFAULT '[]';
+ALTER TABLE bg_tasks ADD COLUMN IF NOT EXISTS pipe_results BOOLEAN NOT NULL DEFAULT TRUE;
+ALTER TABLE bg_tasks ADD COLUMN IF NOT EXISTS parent_task_id TEXT;
+ALTER TABLE bg_tasks ADD COLUMN IF NOT EXISTS lineage TEXT;
+ALTER TABLE bg_tasks ADD COLUMN IF NOT EXISTS session_id TEXT;
+ALTER TABLE bg_tasks ADD COLUMN IF NOT EXISTS user_id TEXT NOT NULL DEFAULT 'default';
+ALTER TABLE bg_tasks ADD COLUMN IF NOT EXISTS status_reason TEXT;
+ALTER TABLE bg_tasks ADD COLUMN IF NOT EXISTS workspace TEXT;
+ALTER TABLE bg_tasks ADD COLUMN IF NOT EXISTS workspace_from TEXT;
+ALTER TABLE bg_tasks ADD COLUMN IF NOT EXISTS artifact_count INTEGER;
+
+CREATE INDEX IF NOT EXISTS idx_bg_tasks_status ON bg_tasks(status);
+
 CREATE TABLE IF NOT EXISTS sessions (
   id TEXT PRIMARY KEY,
   agent_id TEXT NOT NULL,
   created_at BIGINT NOT NULL,
   last_active_at BIGINT NOT NULL
 );
+
+ALTER TABLE sessions ADD COLUMN IF NOT EXISTS title TEXT NOT NULL DEFAULT '';
+ALTER TABLE sessions ADD COLUMN IF NOT EXISTS archived BOOLEAN NOT NULL DEFAULT FALSE;
+ALTER TABLE sessions ADD COLUMN IF NOT EXISTS user_id TEXT NOT NULL DEFAULT 'default';
+
+CREATE TABLE IF NOT EXISTS approval_grants (
+  id TEXT PRIMARY KEY,
+  user_id TEXT NOT NULL,
+  tool_name TEXT NOT NULL,
+  scope TEXT NOT NULL,
+  task_id TEXT,
+  template_id TEXT,
+  command TEXT,
+  pattern TEXT,
+  created_by TEXT NOT NULL,
+  created_at BIGINT NOT NULL,
+  expires_at BIGINT,
+  revoked_at BIGINT
+);
+
+CREATE INDEX IF NOT EXISTS idx_approval_grants_lookup ON approval_grants(user_id, tool_name) WHERE revoked_at IS NULL;
+
+CREATE TABLE IF NOT EXISTS approval_audit (
+  id TEXT PRIMARY KEY,
+  task_id TEXT NOT NULL,
+  user_id TEXT NOT NULL,
+  permission_id TEXT NOT NULL,
+  tool_name TEXT NOT NULL,
+  input JSONB,
+  policy_action TEXT,
+  policy_rule TEXT,
+  policy_reason TEXT,
+  source TEXT NOT NULL,
+  decision TEXT NOT NULL,
+  final BOOLEAN NOT NULL DEFAULT TRUE,
+  note TEXT,
+  auto_reason TEXT,
+  decider_id TEXT,
+  decider_name TEXT,
+  requested_at BIGINT NOT NULL,
+  decided_at BIGINT NOT NULL,
+  latency_ms BIGINT NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_approval_audit_decided ON approval_audit(decided_at DESC);
+CREATE INDEX IF NOT EXISTS idx_approval_audit_task ON approval_audit(task_id);
 `;
 
 export interface StoreInstances {
@@ -39,7 +159,7 @@ export async function initStore(pgConfig: PgConfig, fileStoreDir: string): Promi
   // SDK store for Agent internal state
   const sdkStore = new PostgresStore(pgConfig, fileStoreDir);
 
-  // Shared pool for our extra tables (user_preferences, task_history, vector_documents)
+  // Shared pool for our extra tables (users, user_preferences, task_history, bg_tasks, sessions, approval_grants, approval_audit, vector_documents)
   const pool = new pg.Pool({
     host: pgConfig.host,
     port: pgConfig.port ?? 5432,
@@ -2,6 +2,7 @@ import type pg from 'pg';
 
 export interface Task {
   id: string;
+  userId: string;
   status: 'pending' | 'running' | 'waiting_approval' | 'completed' | 'failed' | 'cancelled';
   agentType: string;
   intent: string;
@@ -10,17 +11,45 @@ export interface Task {
   updatedAt: number;
   result?: string;
   error?: string;
+  cancelReason?: string;
+
+  // Background task details (agentType holds the BgTask templateId)
+  skills?: string[];
+  resourceUsage?: { toolCalls: number; steps: number; totalTokens: number };
+  retryCount?: number;
+  parentTaskId?: string;           // retry/redo 的来源任务
+  lineage?: 'retry' | 'redo';
+}
+
+export interface TaskHistoryQuery {
+  userId: string;
+  status?: Task['status'][];
+  agentType?: string;
+  from?: number;       // created_at >= from (ms)
+  to?: number;         // created_at < to (ms)
+  search?: string;     // substring match over intent/result
+  cursor?: string;     // opaque, from a previous page's nextCursor
+  limit?: number;
 }
 
+export interface TaskHistoryPage {
+  tasks: Task[];
+  nextCursor?: string;
+}
+
+const MAX_PAGE_SIZE = 100;
+
 export class TaskHistory {
   constructor(private pool: pg.Pool) {}
 
   async save(task: Task): Promise<void> {
     await this.pool.query(
-      `INSERT INTO task_history (id, agent_type, intent, status, context, result, error, created_at, updated_at)
-       VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9)
+      `INSERT INTO task_history (id, agent_type, intent, status, context, result, error, created_at, updated_at,
+         skills, resource_usage, retry_count, parent_task_id, lineage, user_id, cancel_reason)
+       VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15, $16)
        ON CONFLICT(id) DO UPDATE SET
-         status = $4, context = $5, result = $6, error = $7, updated_at = $9`,
+         status = $4, context = COALESCE($5, task_history.context), result = $6, error = $7, updated_at = $9,
+         skills = $10, resource_usage = $11, retry_count = $12, cancel_reason = $16`,
       [
         task.id,
         task.agentType,
@@ -31,14 +60,21 @@ export class TaskHistory {
         task.error ?? null,
         task.createdAt,
         task.updatedAt,
+        JSON.stringify(task.skills ?? []),
+        task.resourceUsage ? JSON.stringify(task.resourceUsage) : null,
+        task.retryCount ?? 0,
+        task.parentTaskId ?? null,
+        task.lineage ?? null,
+        task.userId,
+        task.cancelReason ?? null,
       ],
     );
   }
 
-  async getRecent(limit: number): Promise<Task[]> {
+  async getRecent(userId: string, limit: number): Promise<Task[]> {
     const result = await this.pool.query(
-      'SELECT * FROM task_history ORDER BY updated_at DESC LIMIT $1',
-      [limit],
+      'SELECT * FROM task_history WHERE user_id = $1 ORDER BY updated_at DESC LIMIT $2',
+      [userId, limit],
     );
     return result.rows.map(rowToTask);
   }
@@ -47,11 +83,79 @@ export class TaskHistory {
     const result = await this.pool.query('SELECT * FROM task_history WHERE id = $1', [id]);
     return result.rows[0] ? rowToTask(result.rows[0]) : undefined;
   }
+
+  /**
+   * Filtered, newest-first listing with keyset pagination on (created_at, id).
+   */
+  async query(q: TaskHistoryQuery): Promise<TaskHistoryPage> {
+    const limit = Math.min(Math.max(q.limit ?? 20, 1), MAX_PAGE_SIZE);
+    const conditions: string[] = [];
+    const params: unknown[] = [];
+    const param = (value: unknown) => {
+      params.push(value);
+      return `$${params.length}`;
+    };
+
+    conditions.push(`user_id = ${param(q.userId)}`);
+
+    if (q.status && q.status.length > 0) {
+      conditions.push(`status = ANY(${param(q.status)})`);
+    }
+    if (q.agentType) {
+      conditions.push(`agent_type = ${param(q.agentType)}`);
+    }
+    if (q.from !== undefined) {
+      conditions.push(`created_at >= ${param(q.from)}`);
+    }
+    if (q.to !== undefined) {
+      conditions.push(`created_at < ${param(q.to)}`);
+    }
+    if (q.search) {
+      const pattern = param(`%${q.search.replace(/[\\%_]/g, (c) => `\\${c}`)}%`);
+      conditions.push(`(intent ILIKE ${pattern} OR result ILIKE ${pattern})`);
+    }
+    if (q.cursor) {
+      const cursor = decodeCursor(q.cursor);
+      conditions.push(`(created_at, id) < (${param(cursor.createdAt)}, ${param(cursor.id)})`);
+    }
+
+    const result = await this.pool.query(
+      `SELECT * FROM task_history WHERE ${conditions.join(' AND ')} ORDER BY created_at DESC, id DESC LIMIT ${param(limit + 1)}`,
+      params,
+    );
+
+    const tasks = result.rows.slice(0, limit).map(rowToTask);
+    const last = tasks[tasks.length - 1];
+    return {
+      tasks,
+      nextCursor: result.rows.length > limit && last ? encodeCursor(last) : undefined,
+    };
+  }
+}
+
+function encodeCursor(task: Task): string {
+  return Buffer.from(`${task.createdAt}:${task.id}`).toString('base64url');
+}
+
+function decodeCursor(cursor: string): { createdAt: number; id: string } {
+  const raw = Buffer.from(cursor, 'base64url').toString();
+  const sep = raw.indexOf(':');
+  const createdAt = Number(raw.slice(0, sep));
+  if (sep < 0 || !Number.isFinite(createdAt)) throw new InvalidCursorError(cursor);
+  return { createdAt, id: raw.slice(sep + 1) };
+}
+
+export class InvalidCursorError extends Error {
+  constructor(cursor: string) {
+    super(`Invalid cursor: ${cursor}`);
+    this.name = 'InvalidCursorError';
+  }
 }
 
 function rowToTask(row: Record<string, unknown>): Task {
   return {
     id: row.id as string,
+    userId: row.user_id as string,
     status: row.status as Task['status'],
     agentType: row.agent_type as string,
     intent: row.intent as string,
@@ -60,5 +164,11 @@ function rowToTask(row: Record<string, unknown>): Task {
     updatedAt: Number(row.updated_at),
     result: (row.result as string) ?? undefined,
     error: (row.error as string) ?? undefined,
+    cancelReason: (row.cancel_reason as string) ?? undefined,
+    skills: (row.skills as string[] | null) ?? undefined,
+    resourceUsage: (row.resource_usage as Task['resourceUsage'] | null) ?? undefined,
+    retryCount: row.retry_count != null ? Number(row.retry_count) : undefined,
+    parentTaskId: (row.parent_task_id as string) ?? undefined,
+    lineage: (row.lineage as Task['lineage']) ?? undefined,
   };
 }
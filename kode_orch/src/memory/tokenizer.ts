@@ -0,0 +1,68 @@
+/**
+ * Search tokenizer for PostgreSQL full-text search.
+ * The 'simple' parser keeps a whole run of CJK characters as one token, so CJK runs are
+ * split into character bigrams (plus unigrams when indexing) before reaching to_tsvector.
+ * Latin words and numbers are lowercased and kept whole.
+ *
+ * Bump TOKENIZER_ID when the output changes so stored rows are re-tokenized.
+ */
+export const TOKENIZER_ID = 'cjk-bigram-v1';
+
+const CJK = '\\p{Script=Han}\\p{Script=Hiragana}\\p{Script=Katakana}\\p{Script=Hangul}';
+const TOKEN_RE = new RegExp(`[${CJK}]+|(?:(?![${CJK}])[\\p{L}\\p{N}])+`, 'gu');
+const CJK_RE = new RegExp(`^[${CJK}]`, 'u');
+
+/**
+ * Tokens for a stored document: unigrams and bigrams for CJK, so both
+ * single-character and multi-character queries can match.
+ */
+export function tokenizeForIndex(text: string): string[] {
+  return unique(splitRuns(text).flatMap((run) =>
+    isCjk(run) ? [...chars(run), ...bigrams(run)] : [run]));
+}
+
+/**
+ * Tokens for a query: bigrams for CJK runs of two or more characters
+ * (unigrams would match almost everything), the character itself otherwise.
+ */
+export function tokenizeForQuery(text: string): string[] {
+  return unique(splitRuns(text).flatMap((run) => {
+    if (!isCjk(run)) return [run];
+    const chs = chars(run);
+    return chs.length === 1 ? chs : bigrams(run);
+  }));
+}
+
+/**
+ * Build a to_tsquery() expression matching any query token.
+ * Tokens only contain letters and digits, so no tsquery escaping is needed.
+ */
+export function toOrTsQuery(tokens: string[]): string {
+  return tokens.join(' | ');
+}
+
+function splitRuns(text: string): string[] {
+  return (text.toLowerCase().match(TOKEN_RE) ?? []);
+}
+
+function isCjk(run: string): boolean {
+  return CJK_RE.test(run);
+}
+
+function chars(run: string): string[] {
+  return [...run];
+}
+
+function bigrams(run: string): string[] {
+  const chs = chars(run);
+  if (chs.length < 2) return chs;
+  const out: string[] = [];
+  for (let i = 0; i + 1 < chs.length; i++) {
+    out.push(chs[i] + chs[i + 1]);
+  }
+  return out;
+}
+
+function unique(tokens: string[]): string[] {
+  return [...new Set(tokens)];
+}
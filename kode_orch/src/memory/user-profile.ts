@@ -1,23 +1,31 @@
 import type pg from 'pg';
 
+/**
+ * Per-user key/value preferences.
+ */
 export class UserProfile {
   constructor(private pool: pg.Pool) {}
 
-  async get(key: string): Promise<string | undefined> {
-    const result = await this.pool.query('SELECT value FROM user_preferences WHERE key = $1', [key]);
+  async get(userId: string, key: string): Promise<string | undefined> {
+    const result = await this.pool.query('SELECT value FROM user_preferences WHERE user_id = $1 AND key = $2', [userId, key]);
     return result.rows[0]?.value;
   }
 
-  async set(key: string, value: string): Promise<void> {
+  async set(userId: string, key: string, value: string): Promise<void> {
     await this.pool.query(
-      `INSERT INTO user_preferences (key, value, updated_at) VALUES ($1, $2, $3)
-       ON CONFLICT(key) DO UPDATE SET value = $2, updated_at = $3`,
-      [key, value, Date.now()],
+      `INSERT INTO user_preferences (user_id, key, value, updated_at) VALUES ($1, $2, $3, $4)
+       ON CONFLICT(user_id, key) DO UPDATE SET value = $3, updated_at = $4`,
+      [userId, key, value, Date.now()],
     );
   }
 
-  async getAll(): Promise<Record<string, string>> {
-    const result = await this.pool.query('SELECT key, value FROM user_preferences');
+  async delete(userId: string, key: string): Promise<boolean> {
+    const result = await this.pool.query('DELETE FROM user_preferences WHERE user_id = $1 AND key = $2', [userId, key]);
+    return (result.rowCount ?? 0) > 0;
+  }
+
+  async getAll(userId: string): Promise<Record<string, string>> {
+    const result = await this.pool.query('SELECT key, value FROM user_preferences WHERE user_id = $1', [userId]);
     const prefs: Record<string, string> = {};
     for (const row of result.rows) {
       prefs[row.key] = row.value;
@@ -0,0 +1,139 @@
+import type pg from 'pg';
+import { createHash, randomBytes } from 'node:crypto';
+import { generateId } from '../utils/id.js';
+
+/** Owner of data created before multi-user support, and the AUTH_TOKEN identity */
+export const DEFAULT_USER_ID = 'default';
+
+const TOKEN_PREFIX = 'ko_';
+
+/**
+ * Ordered from least to most privileged; each role includes the ones before it.
+ * viewer: read only · operator: chat and control own tasks · approver: also decide approvals
+ */
+export const USER_ROLES = ['viewer', 'operator', 'approver'] as const;
+export type UserRole = typeof USER_ROLES[number];
+
+export function isUserRole(value: unknown): value is UserRole {
+  return USER_ROLES.includes(value as UserRole);
+}
+
+export interface User {
+  id: string;
+  name: string;
+  role: UserRole;
+  createdAt: number;
+}
+
+export interface UserToken {
+  id: string;
+  userId: string;
+  label: string;
+  createdAt: number;
+  lastUsedAt?: number;
+  revokedAt?: number;
+}
+
+export function hashToken(token: string): string {
+  return createHash('sha256').update(token).digest('hex');
+}
+
+/**
+ * Users and their API tokens. Only token hashes are stored; the plaintext is
+ * returned once from issueToken.
+ */
+export class UserStore {
+  constructor(private pool: pg.Pool) {}
+
+  async ensureDefaultUser(): Promise<void> {
+    await this.pool.query(
+      `INSERT INTO users (id, name, role, created_at) VALUES ($1, 'admin', 'approver', $2) ON CONFLICT (id) DO NOTHING`,
+      [DEFAULT_USER_ID, Date.now()],
+    );
+  }
+
+  async createUser(name: string, role: UserRole = 'operator'): Promise<User> {
+    const user: User = { id: generateId(), name, role, createdAt: Date.now() };
+    await this.pool.query(
+      'INSERT INTO users (id, name, role, created_at) VALUES ($1, $2, $3, $4)',
+      [user.id, user.name, user.role, user.createdAt],
+    );
+    return user;
+  }
+
+  async setRole(id: string, role: UserRole): Promise<User | undefined> {
+    const result = await this.pool.query('UPDATE users SET role = $2 WHERE id = $1 RETURNING *', [id, role]);
+    return result.rows[0] ? rowToUser(result.rows[0]) : undefined;
+  }
+
+  async getUser(id: string): Promise<User | undefined> {
+    const result = await this.pool.query('SELECT * FROM users WHERE id = $1', [id]);
+    return result.rows[0] ? rowToUser(result.rows[0]) : undefined;
+  }
+
+  async listUsers(): Promise<User[]> {
+    const result = await this.pool.query('SELECT * FROM users ORDER BY created_at ASC');
+    return result.rows.map(rowToUser);
+  }
+
+  async issueToken(userId: string, label = ''): Promise<{ token: string; info: UserToken }> {
+    const token = TOKEN_PREFIX + randomBytes(32).toString('base64url');
+    const info: UserToken = { id: generateId(), userId, label, createdAt: Date.now() };
+    await this.pool.query(
+      `INSERT INTO user_tokens (id, user_id, token_hash, label, created_at) VALUES ($1, $2, $3, $4, $5)`,
+      [info.id, userId, hashToken(token), label, info.createdAt],
+    );
+    return { token, info };
+  }
+
+  async listTokens(userId: string): Promise<UserToken[]> {
+    const result = await this.pool.query(
+      'SELECT * FROM user_tokens WHERE user_id = $1 ORDER BY created_at ASC',
+      [userId],
+    );
+    return result.rows.map(rowToToken);
+  }
+
+  async revokeToken(userId: string, tokenId: string): Promise<boolean> {
+    const result = await this.pool.query(
+      'UPDATE user_tokens SET revoked_at = $3 WHERE id = $1 AND user_id = $2 AND revoked_at IS NULL',
+      [tokenId, userId, Date.now()],
+    );
+    return (result.rowCount ?? 0) > 0;
+  }
+
+  /**
+   * Resolve a plaintext API token to its user (revoked tokens never match).
+   */
+  async authenticate(token: string): Promise<User | undefined> {
+    if (!token.startsWith(TOKEN_PREFIX)) return undefined;
+    const result = await this.pool.query(
+      `UPDATE user_tokens SET last_used_at = $2
+       WHERE token_hash = $1 AND revoked_at IS NULL
+       RETURNING user_id`,
+      [hashToken(token), Date.now()],
+    );
+    if (!result.rows[0]) return undefined;
+    return this.getUser(result.rows[0].user_id);
+  }
+}
+
+function rowToUser(row: Record<string, unknown>): User {
+  return {
+    id: row.id as string,
+    name: row.name as string,
+    role: isUserRole(row.role) ? row.role : 'viewer',
+    createdAt: Number(row.created_at),
+  };
+}
+
+function rowToToken(row: Record<string, unknown>): UserToken {
+  return {
+    id: row.id as string,
+    userId: row.user_id as string,
+    label: (row.label as string) ?? '',
+    createdAt: Number(row.created_at),
+    lastUsedAt: row.last_used_at != null ? Number(row.last_used_at) : undefined,
+    revokedAt: row.revoked_at != null ? Number(row.revoked_at) : undefined,
+  };
+}
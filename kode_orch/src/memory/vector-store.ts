@@ -1,9 +1,22 @@
 import type pg from 'pg';
+import type { Embedder } from './embedder.js';
+import { TOKENIZER_ID, tokenizeForIndex, tokenizeForQuery, toOrTsQuery } from './tokenizer.js';
 import { generateId } from '../utils/id.js';
 import { logger } from '../utils/logger.js';
 
 export interface VectorConfig {
   collection: string;
+  embedder?: Embedder;
+  // Hybrid ranking: vectorWeight * cosine similarity + textWeight * ts_rank(search_tokens)
+  vectorWeight?: number;
+  textWeight?: number;
+}
+
+export interface VectorListFilter {
+  type?: VectorDocument['metadata']['type'];
+  tag?: string;
+  limit?: number;
+  offset?: number;
 }
 
 export interface VectorDocument {
@@ -16,6 +29,8 @@ export interface VectorDocument {
   };
 }
 
+const EMBEDDING_DIMENSIONS = 1536;
+
 const INIT_SQL = `
 CREATE EXTENSION IF NOT EXISTS vector;
 
@@ -23,44 +38,72 @@ CREATE TABLE IF NOT EXISTS vector_documents (
   id TEXT PRIMARY KEY,
   collection TEXT NOT NULL,
   content TEXT NOT NULL,
-  embedding vector(1536),
+  embedding vector(${EMBEDDING_DIMENSIONS}),
   type TEXT NOT NULL,
   timestamp BIGINT NOT NULL,
   tags TEXT,
   created_at TIMESTAMPTZ DEFAULT NOW()
 );
 
+ALTER TABLE vector_documents ADD COLUMN IF NOT EXISTS embedder TEXT;
+ALTER TABLE vector_documents ADD COLUMN IF NOT EXISTS search_tokens tsvector;
+ALTER TABLE vector_documents ADD COLUMN IF NOT EXISTS tokenizer TEXT;
+ALTER TABLE vector_documents ADD COLUMN IF NOT EXISTS user_id TEXT NOT NULL DEFAULT 'default';
+
 CREATE INDEX IF NOT EXISTS idx_vector_docs_collection ON vector_documents(collection);
 CREATE INDEX IF NOT EXISTS idx_vector_docs_type ON vector_documents(type);
+CREATE INDEX IF NOT EXISTS idx_vector_docs_user ON vector_documents(collection, user_id);
+CREATE INDEX IF NOT EXISTS idx_vector_docs_search ON vector_documents USING GIN(search_tokens);
 `;
 
 export class VectorStore {
   private collection: string;
+  private embedder?: Embedder;
+  private vectorWeight: number;
+  private textWeight: number;
 
   constructor(private pool: pg.Pool, config: VectorConfig) {
     this.collection = config.collection;
+    this.embedder = config.embedder;
+    this.vectorWeight = config.vectorWeight ?? 0.7;
+    this.textWeight = config.textWeight ?? 0.3;
   }
 
   async init(): Promise<void> {
+    if (this.embedder && this.embedder.dimensions !== EMBEDDING_DIMENSIONS) {
+      throw new Error(`Embedder ${this.embedder.id} produces ${this.embedder.dimensions} dims, vector_documents.embedding expects ${EMBEDDING_DIMENSIONS}`);
+    }
     const client = await this.pool.connect();
     try {
       await client.query(INIT_SQL);
-      logger.info('vector-store', `Connected to PostgreSQL pgvector, collection: ${this.collection}`);
+      logger.info('vector-store', `Connected to PostgreSQL pgvector, collection: ${this.collection}`, { embedder: this.embedder?.id ?? 'none' });
     } finally {
       client.release();
     }
   }
 
-  async add(docs: VectorDocument[]): Promise<void> {
+  async add(userId: string, docs: VectorDocument[]): Promise<void> {
     if (docs.length === 0) return;
+    const embeddings = this.embedder
+      ? await this.embedder.embed(docs.map((d) => d.content))
+      : docs.map(() => null);
     const client = await this.pool.connect();
     try {
-      for (const doc of docs) {
+      for (const [i, doc] of docs.entries()) {
+        const embedding = embeddings[i];
         await client.query(
-          `INSERT INTO vector_documents (id, collection, content, type, timestamp, tags)
-           VALUES ($1, $2, $3, $4, $5, $6)
-           ON CONFLICT (id) DO UPDATE SET content = $3, type = $4, timestamp = $5, tags = $6`,
-          [doc.id, this.collection, doc.content, doc.metadata.type, doc.metadata.timestamp, doc.metadata.tags?.join(',') ?? ''],
+          `INSERT INTO vector_documents (id, collection, content, type, timestamp, tags, embedding, embedder, search_tokens, tokenizer, user_id)
+           VALUES ($1, $2, $3, $4, $5, $6, $7, $8, to_tsvector('simple', $9), $10, $11)
+           ON CONFLICT (id) DO UPDATE SET content = $3, type = $4, timestamp = $5, tags = $6, embedding = $7, embedder = $8,
+             search_tokens = to_tsvector('simple', $9), tokenizer = $10`,
+          [
+            doc.id, this.collection, doc.content, doc.metadata.type, doc.metadata.timestamp, doc.metadata.tags?.join(',') ?? '',
+            embedding ? toVectorLiteral(embedding) : null,
+            embedding ? this.embedder!.id : null,
+            tokenizeForIndex(doc.content).join(' '),
+            TOKENIZER_ID,
+            userId,
+          ],
         );
       }
     } finally {
@@ -68,53 +111,166 @@ export class VectorStore {
     }
   }
 
-  async query(text: string, topK = 5): Promise<VectorDocument[]> {
-    // Without embedding, fall back to text similarity search (ts_rank)
-    const result = await this.pool.query(
-      `SELECT id, content, type, timestamp, tags
-       FROM vector_documents
-       WHERE collection = $1
-       ORDER BY ts_rank(to_tsvector('simple', content), plainto_tsquery('simple', $2)) DESC
-       LIMIT $3`,
-      [this.collection, text, topK],
-    );
-    return result.rows.map(rowToDocument);
+  /**
+   * Embed rows that have no embedding from the current embedder (older rows, or after switching embedders).
+   * Returns the number of rows updated.
+   */
+  async backfillEmbeddings(batchSize = 100): Promise<number> {
+    if (!this.embedder) return 0;
+    let total = 0;
+    while (true) {
+      const result = await this.pool.query(
+        `SELECT id, content FROM vector_documents
+         WHERE collection = $1 AND embedder IS DISTINCT FROM $2
+         LIMIT $3`,
+        [this.collection, this.embedder.id, batchSize],
+      );
+      if (result.rows.length === 0) break;
+      const embeddings = await this.embedder.embed(result.rows.map((r) => r.content as string));
+      for (const [i, row] of result.rows.entries()) {
+        const embedding = embeddings[i];
+        await this.pool.query(
+          'UPDATE vector_documents SET embedding = $2, embedder = $3 WHERE id = $1',
+          [row.id, embedding ? toVectorLiteral(embedding) : null, this.embedder.id],
+        );
+      }
+      total += result.rows.length;
+      if (result.rows.length < batchSize) break;
+    }
+    if (total > 0) logger.info('vector-store', `Backfilled embeddings for ${total} documents`, { embedder: this.embedder.id });
+    return total;
+  }
+
+  /**
+   * Re-tokenize rows indexed before search_tokens existed or by an older tokenizer.
+   * Returns the number of rows updated.
+   */
+  async backfillSearchTokens(batchSize = 500): Promise<number> {
+    let total = 0;
+    while (true) {
+      const result = await this.pool.query(
+        `SELECT id, content FROM vector_documents
+         WHERE collection = $1 AND tokenizer IS DISTINCT FROM $2
+         LIMIT $3`,
+        [this.collection, TOKENIZER_ID, batchSize],
+      );
+      if (result.rows.length === 0) break;
+      for (const row of result.rows) {
+        await this.pool.query(
+          `UPDATE vector_documents SET search_tokens = to_tsvector('simple', $2), tokenizer = $3 WHERE id = $1`,
+          [row.id, tokenizeForIndex(row.content as string).join(' '), TOKENIZER_ID],
+        );
+      }
+      total += result.rows.length;
+      if (result.rows.length < batchSize) break;
+    }
+    if (total > 0) logger.info('vector-store', `Re-tokenized ${total} documents`, { tokenizer: TOKENIZER_ID });
+    return total;
+  }
+
+  async query(userId: string, text: string, topK = 5): Promise<VectorDocument[]> {
+    return this.queryWithFilter(userId, text, {}, topK);
   }
 
   async queryWithFilter(
+    userId: string,
     text: string,
     filter: Record<string, unknown>,
     topK = 5,
   ): Promise<VectorDocument[]> {
-    const conditions = ['collection = $1'];
-    const params: unknown[] = [this.collection];
-    let idx = 2;
+    const conditions = ['collection = $1', 'user_id = $2'];
+    const params: unknown[] = [this.collection, userId];
+    const param = (value: unknown) => {
+      params.push(value);
+      return `$${params.length}`;
+    };
 
     if (filter.type) {
-      conditions.push(`type = $${idx}`);
-      params.push(filter.type);
-      idx++;
+      conditions.push(`type = ${param(filter.type)}`);
+    }
+    if (filter.tag) {
+      conditions.push(tagCondition(param(filter.tag)));
+    }
+
+    // Any shared token counts; ts_rank rewards documents matching more of them
+    const queryTokens = tokenizeForQuery(text);
+    const textScore = queryTokens.length > 0
+      ? `COALESCE(ts_rank(search_tokens, to_tsquery('simple', ${param(toOrTsQuery(queryTokens))})), 0)`
+      : '0';
+
+    // Without an embedder (or for an empty query vector), rank by text similarity only
+    const [queryVector] = this.embedder ? await this.embedder.embed([text]) : [null];
+    const vectorScore = queryVector
+      ? `CASE WHEN embedder = ${param(this.embedder!.id)} THEN 1 - (embedding <=> ${param(toVectorLiteral(queryVector))}::vector) ELSE 0 END`
+      : '0';
+    const vectorWeight = queryVector ? this.vectorWeight : 0;
+    const textWeight = queryVector ? this.textWeight : 1;
+
+    const result = await this.pool.query(
+      `SELECT id, content, type, timestamp, tags FROM (
+         SELECT id, content, type, timestamp, tags,
+                ${param(vectorWeight)}::float8 * (${vectorScore}) + ${param(textWeight)}::float8 * ${textScore} AS score
+         FROM vector_documents
+         WHERE ${conditions.join(' AND ')}
+       ) ranked
+       ORDER BY score DESC
+       LIMIT ${param(topK)}`,
+      params,
+    );
+    return result.rows.map(rowToDocument);
+  }
+
+  /**
+   * List documents newest first, optionally filtered by type and tag.
+   */
+  async list(userId: string, filter: VectorListFilter = {}): Promise<VectorDocument[]> {
+    const conditions = ['collection = $1', 'user_id = $2'];
+    const params: unknown[] = [this.collection, userId];
+    const param = (value: unknown) => {
+      params.push(value);
+      return `$${params.length}`;
+    };
+
+    if (filter.type) {
+      conditions.push(`type = ${param(filter.type)}`);
+    }
+    if (filter.tag) {
+      conditions.push(tagCondition(param(filter.tag)));
     }
 
-    params.push(text, topK);
     const result = await this.pool.query(
       `SELECT id, content, type, timestamp, tags
        FROM vector_documents
        WHERE ${conditions.join(' AND ')}
-       ORDER BY ts_rank(to_tsvector('simple', content), plainto_tsquery('simple', $${idx})) DESC
-       LIMIT $${idx + 1}`,
+       ORDER BY timestamp DESC, id DESC
+       LIMIT ${param(filter.limit ?? 50)} OFFSET ${param(filter.offset ?? 0)}`,
       params,
     );
     return result.rows.map(rowToDocument);
   }
 
-  async delete(ids: string[]): Promise<void> {
-    if (ids.length === 0) return;
-    const placeholders = ids.map((_, i) => `$${i + 1}`).join(',');
-    await this.pool.query(`DELETE FROM vector_documents WHERE id IN (${placeholders})`, ids);
+  /**
+   * Delete documents in this collection. Returns the number of rows removed.
+   */
+  async delete(userId: string, ids: string[]): Promise<number> {
+    if (ids.length === 0) return 0;
+    const result = await this.pool.query(
+      'DELETE FROM vector_documents WHERE collection = $1 AND user_id = $2 AND id = ANY($3)',
+      [this.collection, userId, ids],
+    );
+    return result.rowCount ?? 0;
   }
 }
 
+// tags is stored comma-separated; match whole entries only
+function tagCondition(placeholder: string): string {
+  return `strpos(',' || tags || ',', ',' || ${placeholder} || ',') > 0`;
+}
+
+function toVectorLiteral(vec: number[]): string {
+  return `[${vec.join(',')}]`;
+}
+
 function rowToDocument(row: Record<string, unknown>): VectorDocument {
   return {
     id: row.id as string,
@@ -1,39 +1,208 @@
+import type { FileDiff } from './diff-preview.js';
 import { logger } from '../utils/logger.js';
 
+/** Who made an approval decision */
+export interface ApprovalActor {
+  id: string;
+  name: string;
+}
+
+export interface ApprovalDecisionRecord {
+  actor: ApprovalActor;
+  decision: 'allow' | 'deny';
+  note?: string;
+  decidedAt: number;
+  expired?: boolean;     // applied automatically when nobody answered in time
+}
+
+/** Recorded as the actor of decisions applied on expiry */
+export const SYSTEM_ACTOR: ApprovalActor = { id: 'system', name: 'system' };
+
+export interface ApprovalManagerOptions {
+  twoPersonTools?: string[];
+  ttlMs: number;                        // how long an approval waits before the default outcome applies
+  reminderMs: number;                   // remind this long before expiry (0 = no reminder)
+  expireOutcome: 'allow' | 'deny';
+}
+
+/** Per-approval override of the configured expiry, e.g. from a policy rule */
+export interface ApprovalExpiry {
+  ttlMs?: number;
+  outcome?: 'allow' | 'deny';
+}
+
 export interface PendingApproval {
   taskId: string;
+  userId: string;        // owner of the task
   permissionId: string;
   toolName: string;
   inputPreview: unknown;
   description: string;
   createdAt: number;
+  policy?: { action: string; rule?: string; reason: string };   // verdict that sent the call to approval
+  diff?: FileDiff[];                    // full diff of fs_write / fs_edit calls, served by the diff endpoint
+  requiredApprovals: number;            // distinct approvers needed to allow (2 for two-person tools)
+  decisions: ApprovalDecisionRecord[];
+  expiresAt: number;
+  expireOutcome: 'allow' | 'deny';
   respond: (decision: 'allow' | 'deny', opts?: { note?: string }) => Promise<void>;
 }
 
 export type PendingApprovalInfo = Omit<PendingApproval, 'respond'>;
 
+export type DecideOutcome =
+  | 'decided'              // decision delivered to the agent
+  | 'awaiting_approval'    // allow recorded, more approvers needed
+  | 'duplicate'            // this actor already allowed it
+  | 'self_approval'        // the task owner cannot be one of the approvers of a two-person tool
+  | 'not_found';
+
 export class ApprovalManager {
   private pending = new Map<string, PendingApproval>();
+  private timers = new Map<string, ReturnType<typeof setTimeout>[]>();
+  private twoPersonTools: Set<string>;
+  private onDecision?: (approval: PendingApprovalInfo, record: ApprovalDecisionRecord, final: boolean) => void;
+  private onReminder?: (approval: PendingApprovalInfo) => void;
+
+  constructor(private opts: ApprovalManagerOptions) {
+    this.twoPersonTools = new Set(opts.twoPersonTools ?? []);
+  }
+
+  /**
+   * Called for every recorded decision, including partial two-person approvals.
+   */
+  setDecisionListener(listener: (approval: PendingApprovalInfo, record: ApprovalDecisionRecord, final: boolean) => void): void {
+    this.onDecision = listener;
+  }
+
+  /**
+   * Called once per approval, reminderMs before it expires.
+   */
+  setReminderListener(listener: (approval: PendingApprovalInfo) => void): void {
+    this.onReminder = listener;
+  }
+
+  add(
+    approval: Omit<PendingApproval, 'requiredApprovals' | 'decisions' | 'expiresAt' | 'expireOutcome'>,
+    expiry: ApprovalExpiry = {},
+  ): PendingApprovalInfo {
+    const twoPerson = this.twoPersonTools.has(approval.toolName);
+    const ttlMs = expiry.ttlMs ?? this.opts.ttlMs;
+    const pending: PendingApproval = {
+      ...approval,
+      requiredApprovals: twoPerson ? 2 : 1,
+      decisions: [],
+      expiresAt: approval.createdAt + ttlMs,
+      // Expiry must never stand in for the second approver
+      expireOutcome: twoPerson ? 'deny' : expiry.outcome ?? this.opts.expireOutcome,
+    };
+    this.pending.set(approval.permissionId, pending);
+
+    const timers = [setTimeout(() => { void this.expire(approval.permissionId); }, ttlMs)];
+    if (this.opts.reminderMs > 0 && ttlMs > this.opts.reminderMs) {
+      timers.push(setTimeout(() => {
+        const current = this.pending.get(approval.permissionId);
+        if (current) this.onReminder?.(toInfo(current));
+      }, ttlMs - this.opts.reminderMs));
+    }
+    this.timers.set(approval.permissionId, timers);
 
-  add(approval: PendingApproval): void {
-    this.pending.set(approval.permissionId, approval);
     logger.info('approval', 'New approval request', {
       permissionId: approval.permissionId,
       toolName: approval.toolName,
       taskId: approval.taskId,
+      requiredApprovals: pending.requiredApprovals,
+      ttlMs,
+      expireOutcome: pending.expireOutcome,
     });
+    return toInfo(pending);
   }
 
-  async decide(permissionId: string, decision: 'allow' | 'deny', note?: string): Promise<boolean> {
+  /**
+   * A single deny rejects immediately; allow needs requiredApprovals distinct actors,
+   * none of them the task owner when more than one is required.
+   * Callers are responsible for checking that the actor may approve.
+   */
+  async decide(permissionId: string, decision: 'allow' | 'deny', actor: ApprovalActor, note?: string): Promise<DecideOutcome> {
     const approval = this.pending.get(permissionId);
-    if (!approval) return false;
-    logger.info('approval', `Decision: ${decision}`, { permissionId, toolName: approval.toolName });
-    await approval.respond(decision, note ? { note } : undefined);
+    if (!approval) return 'not_found';
+    if (decision === 'allow' && approval.decisions.some((d) => d.actor.id === actor.id)) return 'duplicate';
+    if (decision === 'allow' && approval.requiredApprovals > 1 && actor.id === approval.userId) return 'self_approval';
+
+    const record: ApprovalDecisionRecord = { actor: { id: actor.id, name: actor.name }, decision, note, decidedAt: Date.now() };
+    approval.decisions.push(record);
+    const approvers = approval.decisions.filter((d) => d.decision === 'allow').length;
+    const final = decision === 'deny' || approvers >= approval.requiredApprovals;
+    logger.info('approval', `Decision: ${decision}`, {
+      permissionId,
+      toolName: approval.toolName,
+      actor: actor.id,
+      approvals: `${approvers}/${approval.requiredApprovals}`,
+    });
+
+    try {
+      if (final) {
+        this.pending.delete(permissionId);
+        this.clearTimers(permissionId);
+        const actors = approval.decisions.map((d) => d.actor.name).join(', ');
+        const fullNote = [note, `${decision === 'allow' ? 'approved' : 'denied'} by ${actors}`].filter(Boolean).join(' — ');
+        await approval.respond(decision, { note: fullNote });
+      }
+    } finally {
+      // The decision was made even if delivering it to the agent failed, so it is always audited
+      this.onDecision?.(toInfo(approval), record, final);
+    }
+    return final ? 'decided' : 'awaiting_approval';
+  }
+
+  /**
+   * Applies the default outcome to an approval nobody answered in time.
+   */
+  private async expire(permissionId: string): Promise<void> {
+    const approval = this.pending.get(permissionId);
+    if (!approval) return;
     this.pending.delete(permissionId);
-    return true;
+    this.clearTimers(permissionId);
+
+    const waitedSec = Math.round((Date.now() - approval.createdAt) / 1000);
+    const record: ApprovalDecisionRecord = {
+      actor: SYSTEM_ACTOR,
+      decision: approval.expireOutcome,
+      note: `审批超时（${waitedSec}s 无人处理），按默认策略${approval.expireOutcome === 'allow' ? '放行' : '拒绝'}`,
+      decidedAt: Date.now(),
+      expired: true,
+    };
+    approval.decisions.push(record);
+    logger.warn('approval', 'Approval expired', { permissionId, toolName: approval.toolName, taskId: approval.taskId, outcome: record.decision });
+
+    try {
+      await approval.respond(record.decision, { note: `approval expired after ${waitedSec}s, default ${record.decision}` });
+    } catch (err) {
+      logger.warn('approval', 'Failed to deliver expired approval', { permissionId, error: String(err) });
+    }
+    this.onDecision?.(toInfo(approval), record, true);
+  }
+
+  private clearTimers(permissionId: string): void {
+    for (const timer of this.timers.get(permissionId) ?? []) clearTimeout(timer);
+    this.timers.delete(permissionId);
+  }
+
+  get(permissionId: string): PendingApprovalInfo | undefined {
+    const approval = this.pending.get(permissionId);
+    return approval && toInfo(approval);
   }
 
-  getPending(): PendingApprovalInfo[] {
-    return [...this.pending.values()].map(({ respond: _, ...rest }) => rest);
+  /**
+   * Without a userId, returns every pending approval (for approvers).
+   */
+  getPending(userId?: string): PendingApprovalInfo[] {
+    return [...this.pending.values()]
+      .filter((a) => userId === undefined || a.userId === userId)
+      .map(toInfo);
   }
 }
+
+function toInfo({ respond: _, ...rest }: PendingApproval): PendingApprovalInfo {
+  return { ...rest, decisions: [...rest.decisions] };
+}
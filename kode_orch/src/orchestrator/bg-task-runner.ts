@@ -1,12 +1,24 @@
 import { Agent, type AgentDependencies, type AgentConfig, type ModelProvider, type Sandbox, type CompleteResult } from '@shareai-lab/kode-sdk';
 import type { AppSandboxFactory } from '../sandbox/factory.js';
+import type { WorkspaceManager } from '../sandbox/workspace.js';
+import type { SandboxPool } from '../sandbox/pool.js';
+import { diffSnapshots, readSandboxFile, snapshotWorkspace } from '../sandbox/snapshot.js';
+import type { ArtifactStore, SkippedArtifact } from '../memory/artifact-store.js';
+import type { AppConfig } from '../config.js';
+import type { BgTaskStore } from '../memory/bg-task-store.js';
 import type { InjectionQueue } from './injection-queue.js';
+import type { ProgressTracker } from './progress-tracker.js';
+import { DEFAULT_USER_ID } from '../memory/user-store.js';
 import { setSandboxForAgent, removeSandboxForAgent } from '../tools/sandbox-preview.js';
+import { getPreview, previewPath, removePreview } from '../sandbox/preview-registry.js';
 import { generateId } from '../utils/id.js';
 import { logger } from '../utils/logger.js';
 
 export type TaskPriority = 'high' | 'normal' | 'low';
 
+/** Why a task ended up failed, beyond the free-text error */
+export type TaskStatusReason = 'idle_timeout' | 'resource_limit' | 'approval_expired' | 'dependency_failed';
+
 export interface ResourceLimits {
   maxToolCalls?: number;
   maxSteps?: number;
@@ -23,10 +35,11 @@ export interface BgTask {
   id: string;
   templateId: string;
   description: string;
-  status: 'queued' | 'running' | 'completed' | 'failed' | 'cancelled';
+  status: 'blocked' | 'queued' | 'running' | 'completed' | 'failed' | 'cancelled';
   startTime: number;
   result?: string;
   error?: string;
+  statusReason?: TaskStatusReason;
   sandboxUrl?: string;
   sandboxAlive?: boolean;
   agentAlive?: boolean; // 子 Agent 实例是否还存活（可继续对话）
@@ -40,6 +53,21 @@ export interface BgTask {
   resourceUsage: ResourceUsage;
   lastActivityTime: number;
   cancelReason?: string;
+
+  dependsOn: string[];   // 前置任务 ID，全部 completed 后才进入队列
+  pipeResults: boolean;  // 是否把前置任务结果附加到 prompt
+
+  workspace?: string;           // 任务独立的工作区目录（WORKSPACE_MODE 非 shared 时）
+  workspaceFrom?: string;       // 沿用该前置任务的工作区，而不是新建
+  artifactCount?: number;       // 任务完成时收集到的产物文件数
+
+  parentTaskId?: string;        // retry/redo 的来源任务
+  lineage?: 'retry' | 'redo';
+
+  sessionId?: string;           // 派发任务的会话，结果回传给该会话的编排器
+  userId: string;               // 任务所属用户
+
+  reportedProgress?: { percent: number; stage: string; message?: string }; // 子 Agent 通过 report_progress 显式汇报
 }
 
 export interface BgTaskConfig {
@@ -49,14 +77,36 @@ export interface BgTaskConfig {
   defaultMaxSteps: number;
 }
 
+/** Live sub-agent output, forwarded while the task runs */
+export interface BgTaskOutput {
+  type: 'text' | 'thinking' | 'tool_start' | 'tool_end';
+  data: Record<string, unknown>;
+}
+
 interface QueuedTask {
   task: BgTask;
   prompt: string;
+  resume?: boolean;      // interrupted by a restart: re-attach via Agent.resume instead of starting over
 }
 
 const SANDBOX_KEEP_ALIVE_MS = 30 * 60 * 1000;
 const AGENT_KEEP_ALIVE_MS = 30 * 60 * 1000; // 子 Agent 完成后保留 30 分钟供继续对话
 const PRIORITY_ORDER: Record<TaskPriority, number> = { high: 0, normal: 1, low: 2 };
+const MAX_UPSTREAM_RESULT_LENGTH = 4000;
+const MAX_ESTIMATED_PERCENT = 95; // 估算进度封顶，100% 只由完成或显式汇报给出
+const TOOL_STAGES: Record<string, string> = {
+  fs_read: '阅读文件',
+  fs_glob: '检索文件',
+  fs_grep: '搜索内容',
+  fs_write: '编写文件',
+  fs_edit: '修改文件',
+  fs_multi_edit: '修改文件',
+  bash_run: '执行命令',
+  bash_logs: '查看命令输出',
+  bash_kill: '停止命令',
+  sandbox_preview: '生成预览',
+};
+const RESUME_PROMPT = '[系统通知] 服务刚刚重启，你之前的执行被中断。请检查当前进度并继续完成原任务；如果已经完成，直接输出最终结果。';
 
 export class BgTaskRunner {
   private tasks = new Map<string, BgTask>();
@@ -67,7 +117,17 @@ export class BgTaskRunner {
   private idleTimers = new Map<string, ReturnType<typeof setTimeout>>();
   private pendingMessages = new Map<string, string>();
   private pendingQueue: QueuedTask[] = [];
-  private injectionQueue?: InjectionQueue;
+  private resolveInjectionQueue?: (task: BgTask) => Promise<InjectionQueue | undefined>;
+  private taskStore?: BgTaskStore;
+  private onOutput?: (task: BgTask, output: BgTaskOutput) => void;
+  private progressTracker?: ProgressTracker;
+  private persistChains = new Map<string, Promise<void>>();
+  private heldStatus = new Map<string, { while: BgTask['status']; stored: BgTask['status'] }>(); // see storedState()
+  private workspaceManager?: WorkspaceManager;
+  private sandboxPool?: SandboxPool;
+  private artifactStore?: ArtifactStore;
+  private artifactLimits?: AppConfig['artifacts'];
+  private workspaceTimers = new Map<string, ReturnType<typeof setTimeout>>();
 
   private readonly maxConcurrent: number;
   private readonly defaultIdleTimeoutMs: number;
@@ -79,7 +139,7 @@ export class BgTaskRunner {
     private provider: ModelProvider,
     private sandboxFactory: AppSandboxFactory,
     private onUpdate: (task: BgTask) => void,
-    private onPermission?: (task: BgTask, event: any) => void,
+    private onPermission?: (task: BgTask, event: any) => Promise<void>,
     taskConfig?: BgTaskConfig,
   ) {
     this.maxConcurrent = taskConfig?.maxConcurrent ?? 5;
@@ -88,15 +148,175 @@ export class BgTaskRunner {
     this.defaultMaxSteps = taskConfig?.defaultMaxSteps ?? 50;
   }
 
-  setInjectionQueue(queue: InjectionQueue): void {
-    this.injectionQueue = queue;
+  /**
+   * Results are injected into the orchestrator of the session that dispatched the task.
+   */
+  setInjectionQueueResolver(resolve: (task: BgTask) => Promise<InjectionQueue | undefined>): void {
+    this.resolveInjectionQueue = resolve;
+  }
+
+  setTaskStore(store: BgTaskStore): void {
+    this.taskStore = store;
+  }
+
+  setOutputListener(listener: (task: BgTask, output: BgTaskOutput) => void): void {
+    this.onOutput = listener;
+  }
+
+  setProgressTracker(tracker: ProgressTracker): void {
+    this.progressTracker = tracker;
+  }
+
+  /**
+   * Keep the files each completed task created or changed, after its sandbox is gone.
+   */
+  setArtifactStore(store: ArtifactStore, limits: AppConfig['artifacts']): void {
+    this.artifactStore = store;
+    this.artifactLimits = limits;
+  }
+
+  /**
+   * Take task sandboxes from a pool of pre-initialized ones instead of creating them on start.
+   */
+  setSandboxPool(pool: SandboxPool): void {
+    this.sandboxPool = pool;
+  }
+
+  /**
+   * Give each task its own workspace directory (local and docker sandboxes). Call before restore().
+   */
+  setWorkspaceManager(manager: WorkspaceManager): void {
+    this.workspaceManager = manager;
+  }
+
+  /**
+   * Explicit progress from the sub-agent (report_progress tool). Overrides the estimated stage.
+   */
+  reportProgress(taskId: string, percent: number, stage: string, message?: string): boolean {
+    const task = this.tasks.get(taskId);
+    if (!task || task.status !== 'running') return false;
+    task.reportedProgress = { percent: Math.min(Math.max(Math.round(percent), 0), 100), stage, message };
+    this.updateProgress(task);
+    return true;
+  }
+
+  /**
+   * Push progress for a running task: stage from the explicit report or the current tool,
+   * percent estimated from steps/toolCalls against resourceLimits.
+   */
+  private updateProgress(task: BgTask, currentTool?: string): void {
+    if (!this.progressTracker) return;
+    const { toolCalls, steps } = task.resourceUsage;
+    const { maxToolCalls, maxSteps } = task.resourceLimits;
+    const ratio = Math.max(maxSteps ? steps / maxSteps : 0, maxToolCalls ? toolCalls / maxToolCalls : 0);
+    const estimated = Math.min(Math.round(ratio * 100), MAX_ESTIMATED_PERCENT);
+    const percent = Math.max(estimated, task.reportedProgress?.percent ?? 0);
+
+    const toolStage = currentTool ? (TOOL_STAGES[currentTool] ?? `调用 ${currentTool}`) : undefined;
+    const stage = task.reportedProgress?.stage ?? toolStage ?? '思考中';
+    const message = task.reportedProgress?.message
+      ?? `${toolStage ?? stage}（第 ${steps} 轮，${toolCalls} 次工具调用）`;
+    this.progressTracker.update(task.id, percent, stage, message);
+  }
+
+  /**
+   * Restore persisted tasks after a process restart.
+   * Running tasks are re-attached via Agent.resume (or marked failed) ahead of queued tasks,
+   * both subject to maxConcurrent.
+   * Call after setInjectionQueueResolver so the orchestrator is notified of the outcome.
+   */
+  async restore(): Promise<void> {
+    if (!this.taskStore) return;
+    const tasks = await this.taskStore.loadByStatus(['running', 'queued', 'blocked']);
+    if (tasks.length === 0) return;
+
+    for (const task of tasks) {
+      this.tasks.set(task.id, task);
+    }
+
+    // Finished parents are not restored above but are needed for dependency checks and result piping
+    const missingParents = new Set(tasks.flatMap((t) => t.dependsOn).filter((id) => !this.tasks.has(id)));
+    for (const parentId of missingParents) {
+      const parent = await this.taskStore.getById(parentId);
+      if (parent) this.tasks.set(parent.id, parent);
+    }
+
+    for (const task of tasks) {
+      if (task.status === 'queued') this.enqueue(task);
+    }
+    for (const task of tasks) {
+      if (task.status === 'blocked') this.evaluateBlocked(task);
+    }
+
+    const running = tasks.filter((t) => t.status === 'running');
+    for (const task of running) {
+      // Stored as running until a slot frees up, so another restart still resumes it
+      this.heldStatus.set(task.id, { while: 'queued', stored: 'running' });
+      task.status = 'queued';
+      task.lastActivityTime = Date.now();
+      this.pendingQueue.push({ task, prompt: RESUME_PROMPT, resume: true });
+      this.notify(task);
+    }
+    this.sortQueue();
+
+    logger.info('bg-task', `Restored tasks from store`, { running: running.length, queued: this.pendingQueue.length });
+    this.drainQueue();
+  }
+
+  private notify(task: BgTask): void {
+    this.persist(task);
+    this.onUpdate(task);
+  }
+
+  /**
+   * Save task state, serialized per task so an older snapshot never overwrites a newer one.
+   */
+  private persist(task: BgTask): void {
+    const store = this.taskStore;
+    if (!store) return;
+    const prev = this.persistChains.get(task.id) ?? Promise.resolve();
+    const next = prev
+      .then(() => store.save(this.storedState(task)))
+      .catch((err) => logger.warn('bg-task', `Failed to persist task`, { taskId: task.id, error: String(err) }));
+    this.persistChains.set(task.id, next);
+    next.finally(() => {
+      if (this.persistChains.get(task.id) === next) this.persistChains.delete(task.id);
+    });
+  }
+
+  /**
+   * A follow-up chat shows a finished task as running, and a restored task waiting for a
+   * slot shows as queued. The store keeps the original status meanwhile, so a restart
+   * neither resumes the chat as a whole task nor starts the interrupted run over.
+   */
+  private storedState(task: BgTask): BgTask {
+    const held = this.heldStatus.get(task.id);
+    if (!held) return task;
+    if (held.while !== task.status) {
+      this.heldStatus.delete(task.id);
+      return task;
+    }
+    return { ...task, status: held.stored };
   }
 
   start(
     templateId: string,
     prompt: string,
     description: string,
-    opts?: { priority?: TaskPriority; limits?: ResourceLimits; skills?: string[]; retryCount?: number; redoHistory?: string[] },
+    opts?: {
+      priority?: TaskPriority;
+      limits?: ResourceLimits;
+      skills?: string[];
+      retryCount?: number;
+      redoHistory?: string[];
+      dependsOn?: string[];
+      pipeResults?: boolean;
+      workspaceFrom?: string;
+      parentTaskId?: string;
+      lineage?: 'retry' | 'redo';
+      sessionId?: string;
+      userId?: string;
+    },
   ): string {
     const id = generateId();
     const task: BgTask = {
@@ -117,23 +337,204 @@ export class BgTaskRunner {
       },
       resourceUsage: { toolCalls: 0, steps: 0, totalTokens: 0 },
       lastActivityTime: Date.now(),
+      // The inherited workspace must be final before this task starts
+      dependsOn: [...new Set([...(opts?.dependsOn ?? []), ...(opts?.workspaceFrom ? [opts.workspaceFrom] : [])])],
+      pipeResults: opts?.pipeResults ?? true,
+      workspaceFrom: opts?.workspaceFrom,
+      parentTaskId: opts?.parentTaskId,
+      lineage: opts?.lineage,
+      sessionId: opts?.sessionId,
+      userId: opts?.userId ?? DEFAULT_USER_ID,
     };
     this.tasks.set(id, task);
-    this.onUpdate(task);
-    this.pendingQueue.push({ task, prompt });
-    this.pendingQueue.sort((a, b) => PRIORITY_ORDER[a.task.priority] - PRIORITY_ORDER[b.task.priority]);
+
+    if (task.dependsOn.length > 0) {
+      task.status = 'blocked';
+      this.notify(task);
+      // Parents may already be finished (or failed) at dispatch time
+      this.evaluateBlocked(task);
+      this.drainQueue();
+      return id;
+    }
+
+    this.notify(task);
+    this.enqueue(task);
     this.drainQueue();
     return id;
   }
 
+  /**
+   * Retry a failed or cancelled task with its original parameters. Parents are
+   * remapped to their latest retry / redo, and dependents that were cascade-cancelled
+   * because of this task are retried with it, blocked on the new attempt.
+   */
+  retry(task: BgTask, prompt = task.prompt): string {
+    const id = this.start(task.templateId, prompt, `${task.description} (retry #${task.retryCount + 1})`, {
+      priority: task.priority,
+      limits: task.resourceLimits,
+      skills: task.skills,
+      retryCount: task.retryCount + 1,
+      redoHistory: task.redoHistory,
+      dependsOn: this.latestAttempts(task.dependsOn),
+      pipeResults: task.pipeResults,
+      workspaceFrom: task.workspaceFrom && this.latestAttempt(task.workspaceFrom),
+      parentTaskId: task.id,
+      lineage: 'retry',
+      sessionId: task.sessionId,
+      userId: task.userId,
+    });
+    for (const dependent of [...this.tasks.values()]) {
+      if (dependent.statusReason === 'dependency_failed' && dependent.dependsOn.includes(task.id) && this.latestAttempt(dependent.id) === dependent.id) {
+        logger.info('bg-task', `Retrying cascade-cancelled dependent`, { taskId: dependent.id, parent: id });
+        this.retry(dependent);
+      }
+    }
+    return id;
+  }
+
+  /**
+   * Follow retry / redo lineage to the newest attempt of a task.
+   */
+  latestAttempt(taskId: string): string {
+    let latest = taskId;
+    for (;;) {
+      let next: BgTask | undefined;
+      for (const t of this.tasks.values()) {
+        if (t.parentTaskId === latest && (!next || t.startTime > next.startTime)) next = t;
+      }
+      if (!next) return latest;
+      latest = next.id;
+    }
+  }
+
+  latestAttempts(taskIds: string[]): string[] {
+    return [...new Set(taskIds.map((id) => this.latestAttempt(id)))];
+  }
+
+  private enqueue(task: BgTask): void {
+    task.status = 'queued';
+    this.pendingQueue.push({ task, prompt: this.buildPrompt(task) });
+    this.sortQueue();
+  }
+
+  /** Resumed tasks first, then by priority; the sort is stable, so FIFO within each */
+  private sortQueue(): void {
+    this.pendingQueue.sort((a, b) => Number(!!b.resume) - Number(!!a.resume) || PRIORITY_ORDER[a.task.priority] - PRIORITY_ORDER[b.task.priority]);
+  }
+
+  /**
+   * Append upstream results to the prompt of a task that depends on other tasks.
+   */
+  private buildPrompt(task: BgTask): string {
+    if (task.dependsOn.length === 0 || !task.pipeResults) return task.prompt;
+    const sections = task.dependsOn.map((id) => {
+      const parent = this.tasks.get(id);
+      let result = parent?.result || '(无输出)';
+      if (result.length > MAX_UPSTREAM_RESULT_LENGTH) {
+        result = result.slice(0, MAX_UPSTREAM_RESULT_LENGTH) + '\n\n[内容已截断]';
+      }
+      return `## ${parent?.description ?? id} (taskId=${id}, agent=${parent?.templateId ?? 'unknown'})\n${result}`;
+    });
+    return `${task.prompt}\n\n# 前置任务结果\n${sections.join('\n\n')}`;
+  }
+
+  /**
+   * Move a blocked task forward: queue it when every parent completed,
+   * cascade-cancel it when any parent failed, was cancelled or no longer exists.
+   */
+  private evaluateBlocked(task: BgTask): void {
+    if (task.status !== 'blocked') return;
+    const parents = task.dependsOn.map((id) => ({ id, task: this.tasks.get(id) }));
+
+    const broken = parents.find((p) => !p.task || p.task.status === 'failed' || p.task.status === 'cancelled');
+    if (broken) {
+      const reason = broken.task
+        ? `前置任务 ${broken.id} ${broken.task.status === 'failed' ? '失败' : '已取消'}`
+        : `前置任务 ${broken.id} 不存在`;
+      this.cascadeCancel(task, reason);
+      return;
+    }
+
+    if (parents.every((p) => p.task!.status === 'completed')) {
+      logger.info('bg-task', `Dependencies satisfied, queueing task`, { taskId: task.id, dependsOn: task.dependsOn });
+      this.enqueue(task);
+      this.notify(task);
+    }
+  }
+
+  private cascadeCancel(task: BgTask, reason: string): void {
+    task.status = 'cancelled';
+    task.cancelReason = reason;
+    task.statusReason = 'dependency_failed';
+    this.notify(task);
+    logger.info('bg-task', `Dependent task cancelled`, { taskId: task.id, reason });
+    this.injectOutcome(task);
+    this.settleDependents(task);
+  }
+
+  /**
+   * Re-evaluate blocked tasks that depend on a task which just reached a final state.
+   */
+  private settleDependents(parent: BgTask): void {
+    for (const t of this.tasks.values()) {
+      if (t.status === 'blocked' && t.dependsOn.includes(parent.id)) {
+        this.evaluateBlocked(t);
+      }
+    }
+  }
+
+  private async injectOutcome(task: BgTask): Promise<void> {
+    const queue = await this.injectionQueueFor(task);
+    if (!queue) return;
+    const { InjectionQueue } = await import('./injection-queue.js');
+    queue.enqueue({
+      message: InjectionQueue.buildMessage(task),
+      metadata: {
+        taskId: task.id,
+        type: task.status === 'completed' ? 'task_result'
+          : task.status === 'cancelled' ? 'task_cancelled'
+          : 'task_failed',
+      },
+    });
+  }
+
+  private async injectionQueueFor(task: BgTask): Promise<InjectionQueue | undefined> {
+    if (!this.resolveInjectionQueue) return undefined;
+    try {
+      return await this.resolveInjectionQueue(task);
+    } catch (err) {
+      logger.warn('bg-task', 'No orchestrator to receive task outcome', { taskId: task.id, sessionId: task.sessionId, error: String(err) });
+      return undefined;
+    }
+  }
+
   private drainQueue(): void {
     while (this.runningCount() < this.maxConcurrent && this.pendingQueue.length > 0) {
       const next = this.pendingQueue.shift()!;
       next.task.status = 'running';
-      next.task.startTime = Date.now();
+      if (!next.resume) next.task.startTime = Date.now();
       next.task.lastActivityTime = Date.now();
-      this.onUpdate(next.task);
-      this.runInBackground(next.task, next.task.templateId, next.prompt);
+      this.notify(next.task);
+      const run = next.resume
+        ? this.resumeInBackground(next.task)
+        : this.runInBackground(next.task, next.task.templateId, next.prompt);
+      run.catch((err) =>
+        logger.error('bg-task', `Background run crashed`, { taskId: next.task.id, error: String(err) }));
+    }
+  }
+
+  /**
+   * Hand a permission request to the approval flow; if that fails, the call is denied
+   * rather than left waiting forever.
+   */
+  private async requestPermission(task: BgTask, event: any): Promise<void> {
+    try {
+      await this.onPermission!(task, event);
+    } catch (err) {
+      logger.error('bg-task', `Permission handling failed, denying`, { taskId: task.id, tool: event.call?.name, error: String(err) });
+      try {
+        await event.respond('deny', { note: `审批处理失败：${err instanceof Error ? err.message : String(err)}` });
+      } catch { /* already answered */ }
     }
   }
 
@@ -146,21 +547,193 @@ export class BgTaskRunner {
   }
 
   private async runInBackground(task: BgTask, templateId: string, prompt: string): Promise<void> {
-    const sandbox = await this.sandboxFactory.create();
+    const sandbox = await this.createSandbox(task);
+    if (!sandbox) return;
     await this.runWithSandbox(task, templateId, prompt, sandbox);
   }
 
-  private async runWithSandbox(task: BgTask, templateId: string, prompt: string, sandbox: Sandbox): Promise<void> {
+  /**
+   * Sandbox for a task, in its own workspace when a WorkspaceManager is set.
+   * A workspace or sandbox that cannot be set up fails the task.
+   */
+  private async createSandbox(task: BgTask): Promise<Sandbox | undefined> {
+    let workDir: string | undefined;
+    try {
+      workDir = await this.prepareWorkspace(task);
+    } catch (err) {
+      await this.failToStart(task, `工作区创建失败：${err instanceof Error ? err.message : String(err)}`);
+      return undefined;
+    }
+    const opts = { workDir, taskId: task.id, userId: task.userId, templateId: task.templateId, skills: task.skills };
+    try {
+      return await (this.sandboxPool ? this.sandboxPool.acquire(opts) : this.sandboxFactory.create(opts));
+    } catch (err) {
+      await this.failToStart(task, `沙箱创建失败：${err instanceof Error ? err.message : String(err)}`);
+      return undefined;
+    }
+  }
+
+  private async failToStart(task: BgTask, error: string): Promise<void> {
+    if (task.status !== 'cancelled' && task.status !== 'failed') {
+      task.status = 'failed';
+      task.error = error;
+    }
+    logger.error('bg-task', `Task failed to start`, { taskId: task.id, error });
+    this.notify(task);
+    await this.injectOutcome(task);
+    this.settleDependents(task);
+    this.scheduleWorkspaceCleanup(task);
+    this.drainQueue();
+  }
+
+  /**
+   * Dispose a task's sandbox, or hand it back to the pool (which may recycle it after a completed task).
+   */
+  private async releaseSandbox(task: BgTask, sandbox: Sandbox): Promise<void> {
+    if (this.sandboxPool) {
+      await this.sandboxPool.release(sandbox, task.status === 'completed');
+    } else {
+      await sandbox.dispose?.();
+    }
+  }
+
+  /**
+   * Resumed tasks keep their workspace; tasks with workspaceFrom reuse the parent's.
+   */
+  private async prepareWorkspace(task: BgTask): Promise<string | undefined> {
+    const manager = this.workspaceManager;
+    if (!manager) return undefined;
+    if (task.workspace) return task.workspace;
+
+    if (task.workspaceFrom) {
+      const parent = this.tasks.get(task.workspaceFrom) ?? await this.taskStore?.getById(task.workspaceFrom);
+      if (!parent?.workspace) throw new Error(`前置任务 ${task.workspaceFrom} 没有可继承的工作区`);
+      task.workspace = parent.workspace;
+    } else {
+      task.workspace = await manager.create(task.id);
+    }
+    this.notify(task);
+    return task.workspace;
+  }
+
+  /**
+   * Delete a finished task's own workspace after the retention delay, per the retention policy.
+   * Inherited workspaces are only removed with their owner, and never while a task still uses them.
+   */
+  private scheduleWorkspaceCleanup(task: BgTask, delayMs?: number): void {
+    const manager = this.workspaceManager;
+    if (!manager || !task.workspace || task.workspace !== manager.pathFor(task.id)) return;
+    if (!manager.shouldDelete(task.status)) return;
+
+    clearTimeout(this.workspaceTimers.get(task.id));
+    const timer = setTimeout(() => {
+      this.workspaceTimers.delete(task.id);
+      if (this.workspaceInUse(task)) {
+        this.scheduleWorkspaceCleanup(task);
+        return;
+      }
+      manager.remove(task.id).catch((err) =>
+        logger.warn('bg-task', `Workspace removal failed`, { taskId: task.id, error: String(err) }));
+    }, delayMs ?? manager.retentionMs);
+    timer.unref?.();
+    this.workspaceTimers.set(task.id, timer);
+  }
+
+  private workspaceInUse(owner: BgTask): boolean {
+    if (owner.agentAlive || owner.sandboxAlive) return true;
+    for (const t of this.tasks.values()) {
+      if (t.id === owner.id || !['blocked', 'queued', 'running'].includes(t.status)) continue;
+      if (t.workspace === owner.workspace || t.workspaceFrom === owner.id) return true;
+    }
+    return false;
+  }
+
+  /**
+   * Schedule removal of workspaces left on disk by tasks that finished before a restart.
+   * Workspaces of unknown tasks are left alone.
+   */
+  async sweepWorkspaces(): Promise<void> {
+    const manager = this.workspaceManager;
+    if (!manager) return;
+    for (const { taskId, mtimeMs } of await manager.list()) {
+      if (this.workspaceTimers.has(taskId)) continue;
+      const task = this.tasks.get(taskId) ?? await this.taskStore?.getById(taskId);
+      if (!task || ['blocked', 'queued', 'running'].includes(task.status)) continue;
+      this.scheduleWorkspaceCleanup(task, Math.max(mtimeMs + manager.retentionMs - Date.now(), 0));
+    }
+  }
+
+  /**
+   * Forward the sub-agent's progress channel (text/thinking chunks, tool start/end) to the output listener.
+   * Returns an unsubscribe function.
+   */
+  private streamOutput(task: BgTask, agent: Agent): () => void {
+    if (!this.onOutput && !this.progressTracker) return () => {};
+    const iterator = agent.subscribe(['progress'])[Symbol.asyncIterator]();
+    let stopped = false;
+
+    (async () => {
+      while (!stopped) {
+        const { value, done } = await iterator.next();
+        if (done || stopped) break;
+        const event = value.event as any;
+        const call = event.call;
+        switch (event.type) {
+          case 'text_chunk':
+            this.onOutput?.(task, { type: 'text', data: { delta: event.delta } });
+            break;
+          case 'think_chunk':
+            this.onOutput?.(task, { type: 'thinking', data: { delta: event.delta } });
+            break;
+          case 'tool:start':
+            this.onOutput?.(task, { type: 'tool_start', data: { name: call?.name, toolCallId: call?.id, input: call?.inputPreview } });
+            if (call?.name !== 'report_progress') this.updateProgress(task, call?.name);
+            break;
+          case 'tool:end':
+            this.onOutput?.(task, { type: 'tool_end', data: { name: call?.name, toolCallId: call?.id, result: call?.result, durationMs: call?.durationMs } });
+            break;
+          case 'tool:error':
+            this.onOutput?.(task, { type: 'tool_end', data: { name: call?.name, toolCallId: call?.id, error: event.error } });
+            break;
+        }
+      }
+    })().catch((err) => logger.warn('bg-task', `Output stream ended with error`, { taskId: task.id, error: String(err) }));
+
+    return () => {
+      stopped = true;
+      iterator.return?.();
+    };
+  }
+
+  private async resumeInBackground(task: BgTask): Promise<void> {
+    const sandbox = await this.createSandbox(task);
+    if (!sandbox) return;
+    await this.runWithSandbox(task, task.templateId, RESUME_PROMPT, sandbox, 'resume');
+  }
+
+  private async runWithSandbox(
+    task: BgTask,
+    templateId: string,
+    prompt: string,
+    sandbox: Sandbox,
+    mode: 'create' | 'resume' = 'create',
+  ): Promise<void> {
     let subAgent: Agent | undefined;
     const unsubs: Array<() => void> = [];
 
     // Prepend taskId context so sub-agent knows its own ID for sandbox_preview
-    const promptWithContext = `# 任务上下文\n- taskId: ${task.id}\n- 如需调用 sandbox_preview 工具，请使用上述 taskId 作为 agentId 参数\n\n${prompt}`;
+    // (a resumed agent already has it in its history)
+    const promptWithContext = mode === 'resume'
+      ? prompt
+      : `# 任务上下文\n- taskId: ${task.id}\n- 如需调用 sandbox_preview 工具，请使用上述 taskId 作为 agentId 参数\n- 在关键阶段调用 report_progress 工具汇报阶段和完成百分比\n\n${prompt}`;
 
     try {
-      logger.info('bg-task', `Starting sub-agent ${templateId}`, { taskId: task.id, priority: task.priority });
+      logger.info('bg-task', `${mode === 'resume' ? 'Resuming' : 'Starting'} sub-agent ${templateId}`, { taskId: task.id, priority: task.priority });
 
       setSandboxForAgent(task.id, sandbox);
+      this.progressTracker?.start(task.id, task.description, task.userId);
+      // A resumed task keeps the baseline from its first start
+      if (mode === 'create') await this.captureBaseline(task, sandbox);
 
       const config: AgentConfig = {
         templateId,
@@ -168,14 +741,24 @@ export class BgTaskRunner {
         model: this.provider,
         sandbox,
       };
-      subAgent = await Agent.create(config, this.deps);
+      if (mode === 'resume') {
+        try {
+          subAgent = await Agent.resume(task.id, config, this.deps, { strategy: 'crash' });
+        } catch (err) {
+          throw new Error(`服务重启后恢复子 Agent 失败：${err}`);
+        }
+      } else {
+        subAgent = await Agent.create(config, this.deps);
+      }
       this.agents.set(task.id, subAgent);
 
       // Permission listener (add to unsubs so it gets cleaned up after task completes)
       if (this.onPermission) {
         unsubs.push(subAgent.on('permission_required', (event: any) => {
           logger.info('bg-task', `Permission required for tool`, { taskId: task.id, tool: event.call?.name });
-          this.onPermission!(task, event);
+          // Waiting for a human is not idleness; approvals expire on their own TTL
+          this.clearIdleTimer(task.id);
+          void this.requestPermission(task, event);
         }));
       }
 
@@ -203,6 +786,7 @@ export class BgTaskRunner {
         task.resourceUsage.steps++;
         logger.info('bg-task', `Step complete`, { taskId: task.id, steps: task.resourceUsage.steps });
         resetIdleTimer();
+        this.updateProgress(task);
         if (task.resourceLimits.maxSteps && task.resourceUsage.steps >= task.resourceLimits.maxSteps) {
           this.handleResourceLimit(task.id, 'maxSteps');
         }
@@ -214,6 +798,8 @@ export class BgTaskRunner {
         resetIdleTimer(); // 思考消耗 token 也算活动，重置 idle timer
       }));
 
+      unsubs.push(this.streamOutput(task, subAgent));
+
       logger.info('bg-task', `Monitor events registered, starting complete()`, { taskId: task.id });
       resetIdleTimer();
 
@@ -245,7 +831,7 @@ export class BgTaskRunner {
         // Check result text for [sandbox-preview](url) format
         // Only show sandbox preview if agent explicitly called sandbox_preview tool
         const urlMatch = result!.text?.match(/\[sandbox-preview\]\((https?:\/\/[^\s)]+)\)/);
-        if (urlMatch && !urlMatch[1].includes('localhost')) {
+        if (urlMatch && isPreviewUrl(task.id, urlMatch[1])) {
           task.sandboxUrl = urlMatch[1];
         }
       }
@@ -260,6 +846,8 @@ export class BgTaskRunner {
     } finally {
       // Unsubscribe all monitors
       for (const unsub of unsubs) { try { unsub(); } catch { /* ignore */ } }
+      this.progressTracker?.finish(task.id);
+      task.reportedProgress = undefined;
 
       // Clear idle timer
       const idleTimer = this.idleTimers.get(task.id);
@@ -282,6 +870,9 @@ export class BgTaskRunner {
       // Clean up sandbox registry (but keep sandbox reference in sandboxes map if needed)
       removeSandboxForAgent(task.id);
 
+      if (task.status === 'completed') await this.collectArtifacts(task, sandbox);
+      else await this.artifactStore?.discardBaseline(task.id).catch(() => undefined);
+
       // Sandbox lifecycle
       if (task.sandboxUrl && sandbox) {
         task.sandboxAlive = true;
@@ -290,35 +881,79 @@ export class BgTaskRunner {
         this.disposeTimers.set(task.id, timer);
         logger.info('bg-task', `Sandbox kept alive for preview`, { taskId: task.id, url: task.sandboxUrl });
       } else if (sandbox) {
+        removePreview(task.id);
         try {
-          await sandbox.dispose?.();
+          await this.releaseSandbox(task, sandbox);
           logger.info('bg-task', `Sandbox disposed (task ${task.status})`, { taskId: task.id });
         } catch (err) {
           logger.warn('bg-task', `Sandbox dispose failed`, { taskId: task.id, error: String(err) });
         }
       }
 
-      this.onUpdate(task);
+      this.notify(task);
 
       // Inject result into Orchestrator
-      if (this.injectionQueue) {
-        const { InjectionQueue } = await import('./injection-queue.js');
-        this.injectionQueue.enqueue({
-          message: InjectionQueue.buildMessage(task),
-          metadata: {
-            taskId: task.id,
-            type: task.status === 'completed' ? 'task_result'
-              : task.status === 'cancelled' ? 'task_cancelled'
-              : 'task_failed',
-          },
-        });
-      }
+      await this.injectOutcome(task);
+
+      // Unblock or cascade-cancel dependent tasks
+      this.settleDependents(task);
+
+      this.scheduleWorkspaceCleanup(task);
 
       // Drain queue (start next queued task)
       this.drainQueue();
     }
   }
 
+  /**
+   * Record the files in the work dir before the task runs, to tell its deliverables apart later.
+   */
+  private async captureBaseline(task: BgTask, sandbox: Sandbox): Promise<void> {
+    if (!this.artifactStore) return;
+    try {
+      await this.artifactStore.saveBaseline(task.id, await snapshotWorkspace(sandbox));
+    } catch (err) {
+      logger.warn('bg-task', `Workspace snapshot failed, no artifacts will be collected`, { taskId: task.id, error: String(err) });
+    }
+  }
+
+  /**
+   * Copy the files the task created or changed into the artifact store, within the configured limits.
+   */
+  private async collectArtifacts(task: BgTask, sandbox: Sandbox): Promise<void> {
+    const store = this.artifactStore;
+    const limits = this.artifactLimits;
+    if (!store || !limits) return;
+    try {
+      const baseline = await store.loadBaseline(task.id);
+      if (!baseline) return;
+      const changes = diffSnapshots(baseline, await snapshotWorkspace(sandbox));
+
+      const files: Array<{ path: string; status: 'created' | 'modified'; data: Buffer }> = [];
+      const skipped: SkippedArtifact[] = [];
+      let totalBytes = 0;
+      for (const change of changes) {
+        const skip = (reason: string) => skipped.push({ path: change.path, size: change.size, reason });
+        if (files.length >= limits.maxFiles) { skip(`超过文件数上限 ${limits.maxFiles}`); continue; }
+        if (change.size > limits.maxFileBytes) { skip(`超过单文件上限 ${limits.maxFileBytes} 字节`); continue; }
+        if (totalBytes + change.size > limits.maxTotalBytes) { skip(`超过总大小上限 ${limits.maxTotalBytes} 字节`); continue; }
+        try {
+          const data = await readSandboxFile(sandbox, change.path);
+          files.push({ path: change.path, status: change.status, data });
+          totalBytes += data.length;
+        } catch (err) {
+          skip(`读取失败：${err instanceof Error ? err.message : String(err)}`);
+        }
+      }
+
+      const manifest = await store.save(task.id, task.userId, files, skipped);
+      task.artifactCount = manifest.files.length;
+      logger.info('bg-task', `Artifacts collected`, { taskId: task.id, files: manifest.files.length, skipped: skipped.length, bytes: manifest.totalBytes });
+    } catch (err) {
+      logger.warn('bg-task', `Artifact collection failed`, { taskId: task.id, error: String(err) });
+    }
+  }
+
   private handleIdleTimeout(taskId: string): void {
     const task = this.tasks.get(taskId);
     if (!task || task.status !== 'running') return;
@@ -327,9 +962,10 @@ export class BgTaskRunner {
     const timeoutSec = Math.round(timeoutMs / 1000);
     task.status = 'failed';
     task.error = `空闲超时：${timeoutSec}s 无任何输出`;
+    task.statusReason = 'idle_timeout';
 
     // Notify frontend immediately
-    this.onUpdate(task);
+    this.notify(task);
 
     const agent = this.agents.get(taskId);
     if (agent) {
@@ -344,10 +980,11 @@ export class BgTaskRunner {
     if (!task || task.status !== 'running') return;
 
     task.status = 'failed';
+    task.statusReason = 'resource_limit';
     task.error = `资源超限：${limitType} (${limitType === 'maxToolCalls' ? task.resourceUsage.toolCalls : task.resourceUsage.steps}/${limitType === 'maxToolCalls' ? task.resourceLimits.maxToolCalls : task.resourceLimits.maxSteps})`;
 
     // Notify frontend immediately
-    this.onUpdate(task);
+    this.notify(task);
 
     const agent = this.agents.get(taskId);
     if (agent) {
@@ -357,24 +994,44 @@ export class BgTaskRunner {
     logger.warn('bg-task', `Resource limit ${limitType} for task ${taskId}`);
   }
 
+  /**
+   * Fails a task whose tool approval expired with a deny, instead of letting
+   * it linger until the idle timeout.
+   */
+  expireApproval(taskId: string, toolName: string): void {
+    const task = this.tasks.get(taskId);
+    if (!task || task.status !== 'running') return;
+
+    task.status = 'failed';
+    task.statusReason = 'approval_expired';
+    task.error = `审批超时：${toolName} 的调用无人处理，已按默认策略拒绝`;
+    this.notify(task);
+
+    const agent = this.agents.get(taskId);
+    if (agent) {
+      agent.interrupt({ note: `Approval for ${toolName} expired` }).catch(() => {});
+    }
+    logger.warn('bg-task', `Approval expired for task ${taskId}`, { toolName });
+  }
+
+  private clearIdleTimer(taskId: string): void {
+    const timer = this.idleTimers.get(taskId);
+    if (timer) { clearTimeout(timer); this.idleTimers.delete(taskId); }
+  }
+
   async cancel(taskId: string, reason?: string): Promise<boolean> {
     const task = this.tasks.get(taskId);
     if (!task) return false;
 
-    if (task.status === 'queued') {
+    if (task.status === 'queued' || task.status === 'blocked') {
       this.pendingQueue = this.pendingQueue.filter(q => q.task.id !== taskId);
       task.status = 'cancelled';
       task.cancelReason = reason;
-      this.onUpdate(task);
+      this.notify(task);
 
       // Inject cancellation notice
-      if (this.injectionQueue) {
-        const { InjectionQueue } = await import('./injection-queue.js');
-        this.injectionQueue.enqueue({
-          message: InjectionQueue.buildMessage(task),
-          metadata: { taskId: task.id, type: 'task_cancelled' },
-        });
-      }
+      await this.injectOutcome(task);
+      this.settleDependents(task);
       return true;
     }
 
@@ -383,7 +1040,7 @@ export class BgTaskRunner {
     task.status = 'cancelled';
     task.cancelReason = reason;
     // Notify frontend immediately (don't wait for runInBackground to finish)
-    this.onUpdate(task);
+    this.notify(task);
 
     const agent = this.agents.get(taskId);
     if (agent) {
@@ -406,8 +1063,10 @@ export class BgTaskRunner {
     const sandbox = this.sandboxes.get(taskId);
     if (!sandbox) return false;
 
-    try { await sandbox.dispose?.(); } catch { /* ignore */ }
+    // Kept alive for preview: never recycled
+    try { await (this.sandboxPool ? this.sandboxPool.release(sandbox) : sandbox.dispose?.()); } catch { /* ignore */ }
     this.sandboxes.delete(taskId);
+    removePreview(taskId);
 
     const timer = this.disposeTimers.get(taskId);
     if (timer) { clearTimeout(timer); this.disposeTimers.delete(taskId); }
@@ -415,7 +1074,7 @@ export class BgTaskRunner {
     const task = this.tasks.get(taskId);
     if (task) {
       task.sandboxAlive = false;
-      this.onUpdate(task);
+      this.notify(task);
     }
 
     logger.info('bg-task', `Sandbox disposed`, { taskId });
@@ -437,7 +1096,7 @@ export class BgTaskRunner {
     const task = this.tasks.get(taskId);
     if (task) {
       task.agentAlive = false;
-      this.onUpdate(task);
+      this.notify(task);
     }
 
     logger.info('bg-task', `Agent disposed`, { taskId });
@@ -460,7 +1119,7 @@ export class BgTaskRunner {
     const agent = this.agents.get(taskId);
     if (!agent) {
       task.agentAlive = false;
-      this.onUpdate(task);
+      this.notify(task);
       return { ok: false, error: `子 Agent 实例不存在` };
     }
 
@@ -475,9 +1134,10 @@ export class BgTaskRunner {
 
     // Mark task as running during chat
     const previousStatus = task.status;
+    this.heldStatus.set(taskId, { while: 'running', stored: previousStatus });
     task.status = 'running';
     task.lastActivityTime = Date.now();
-    this.onUpdate(task);
+    this.notify(task);
 
     // Reset the agent dispose timer (extend the keep-alive)
     const existingTimer = this.agentDisposeTimers.get(taskId);
@@ -497,7 +1157,7 @@ export class BgTaskRunner {
     if (this.onPermission) {
       unsubs.push(agent.on('permission_required', (event: any) => {
         logger.info('bg-task', `Permission required for tool (chat)`, { taskId, tool: event.call?.name });
-        this.onPermission!(task, event);
+        void this.requestPermission(task, event);
       }));
     }
 
@@ -513,6 +1173,8 @@ export class BgTaskRunner {
       task.lastActivityTime = Date.now();
     }));
 
+    unsubs.push(this.streamOutput(task, agent));
+
     try {
       logger.info('bg-task', `Continuing conversation with agent (async)`, { taskId, messageLength: message.length, messagePreview: message.slice(0, 200) });
 
@@ -522,7 +1184,7 @@ export class BgTaskRunner {
       task.status = 'completed';
       task.result = result.text;
       task.lastActivityTime = Date.now();
-      this.onUpdate(task);
+      this.notify(task);
 
       // Reset agent dispose timer
       const newTimer = setTimeout(() => { this.disposeAgent(taskId); }, AGENT_KEEP_ALIVE_MS);
@@ -531,9 +1193,10 @@ export class BgTaskRunner {
       logger.info('bg-task', `Agent chat completed (async)`, { taskId });
 
       // Inject result into Orchestrator via injection queue
-      if (this.injectionQueue) {
+      const queue = await this.injectionQueueFor(task);
+      if (queue) {
         const { InjectionQueue } = await import('./injection-queue.js');
-        this.injectionQueue.enqueue({
+        queue.enqueue({
           message: InjectionQueue.buildChatMessage(task, result.text),
           metadata: {
             taskId: task.id,
@@ -545,13 +1208,14 @@ export class BgTaskRunner {
       // Restore previous status on error
       task.status = previousStatus;
       task.error = String(err);
-      this.onUpdate(task);
+      this.notify(task);
       logger.error('bg-task', `Agent chat failed (async)`, { taskId, error: String(err) });
 
       // Inject error into Orchestrator
-      if (this.injectionQueue) {
+      const queue = await this.injectionQueueFor(task);
+      if (queue) {
         const { InjectionQueue } = await import('./injection-queue.js');
-        this.injectionQueue.enqueue({
+        queue.enqueue({
           message: InjectionQueue.buildChatMessage(task, undefined, String(err)),
           metadata: {
             taskId: task.id,
@@ -589,15 +1253,16 @@ export class BgTaskRunner {
     const agent = this.agents.get(taskId);
     if (!agent) {
       task.agentAlive = false;
-      this.onUpdate(task);
+      this.notify(task);
       return { ok: false, error: `子 Agent 实例不存在` };
     }
 
     // Mark task as running during chat
     const previousStatus = task.status;
+    this.heldStatus.set(taskId, { while: 'running', stored: previousStatus });
     task.status = 'running';
     task.lastActivityTime = Date.now();
-    this.onUpdate(task);
+    this.notify(task);
 
     // Reset the agent dispose timer (extend the keep-alive)
     const existingTimer = this.agentDisposeTimers.get(taskId);
@@ -617,7 +1282,7 @@ export class BgTaskRunner {
     if (this.onPermission) {
       unsubs.push(agent.on('permission_required', (event: any) => {
         logger.info('bg-task', `Permission required for tool (chat)`, { taskId, tool: event.call?.name });
-        this.onPermission!(task, event);
+        void this.requestPermission(task, event);
       }));
     }
 
@@ -633,6 +1298,8 @@ export class BgTaskRunner {
       task.lastActivityTime = Date.now();
     }));
 
+    unsubs.push(this.streamOutput(task, agent));
+
     try {
       logger.info('bg-task', `Continuing conversation with agent`, { taskId, messageLength: message.length, messagePreview: message.slice(0, 200) });
 
@@ -642,7 +1309,7 @@ export class BgTaskRunner {
       task.status = 'completed';
       task.result = result.text;
       task.lastActivityTime = Date.now();
-      this.onUpdate(task);
+      this.notify(task);
 
       // Reset agent dispose timer
       const newTimer = setTimeout(() => { this.disposeAgent(taskId); }, AGENT_KEEP_ALIVE_MS);
@@ -659,7 +1326,7 @@ export class BgTaskRunner {
     } catch (err) {
       // Restore previous status on error
       task.status = previousStatus;
-      this.onUpdate(task);
+      this.notify(task);
       logger.error('bg-task', `Agent chat failed`, { taskId, error: String(err) });
       return { ok: false, error: String(err) };
     } finally {
@@ -685,4 +1352,17 @@ export class BgTaskRunner {
   getQueuedTasks(): BgTask[] {
     return [...this.tasks.values()].filter((t) => t.status === 'queued');
   }
+
+  getBlockedTasks(): BgTask[] {
+    return [...this.tasks.values()].filter((t) => t.status === 'blocked');
+  }
+}
+
+/**
+ * Public sandbox URLs, or the proxied path of a preview the task registered;
+ * raw localhost URLs are useless to the user.
+ */
+function isPreviewUrl(taskId: string, url: string): boolean {
+  if (getPreview(taskId)) return url.includes(previewPath(taskId));
+  return !url.includes('localhost');
 }
@@ -0,0 +1,104 @@
+import type { Sandbox } from '@shareai-lab/kode-sdk';
+import { unifiedDiff } from '../utils/diff.js';
+
+export const DIFF_PREVIEW_TOOLS = ['fs_write', 'fs_edit', 'fs_multi_edit'];
+
+/** Diff lines sent with approval_needed; the full diff is fetched on demand */
+const MAX_PREVIEW_LINES = 200;
+
+export interface FileDiff {
+  path: string;
+  diff: string;
+  additions: number;
+  deletions: number;
+  truncated?: boolean;
+  error?: string;          // e.g. the edit's old text is not in the file
+}
+
+interface FileChange {
+  path: string;
+  apply: (current: string) => string;
+}
+
+/**
+ * Diffs a pending fs_write / fs_edit / fs_multi_edit call against the files
+ * in the task's sandbox, one entry per touched file.
+ */
+export async function computeDiffPreview(sandbox: Sandbox, toolName: string, input: unknown): Promise<FileDiff[]> {
+  const changes = toChanges(toolName, (input ?? {}) as Record<string, unknown>);
+  const byPath = new Map<string, FileChange[]>();
+  for (const change of changes) byPath.set(change.path, [...(byPath.get(change.path) ?? []), change]);
+
+  const diffs: FileDiff[] = [];
+  for (const [path, fileChanges] of byPath) {
+    const before = await sandbox.fs.read(path).catch(() => '');
+    try {
+      const after = fileChanges.reduce((text, change) => change.apply(text), before);
+      diffs.push({ path, ...unifiedDiff(before, after, path) });
+    } catch (err) {
+      diffs.push({ path, diff: '', additions: 0, deletions: 0, error: err instanceof Error ? err.message : String(err) });
+    }
+  }
+  return diffs;
+}
+
+/**
+ * Diff attached to a pending approval: the full diff, kept for the diff
+ * endpoint, and the truncated preview sent with approval_needed.
+ * Undefined for tools that don't modify files or when the sandbox is gone.
+ */
+export async function approvalDiff(
+  sandbox: Sandbox | undefined,
+  toolName: string,
+  input: unknown,
+): Promise<{ diff: FileDiff[]; preview: FileDiff[] } | undefined> {
+  if (!sandbox || !DIFF_PREVIEW_TOOLS.includes(toolName)) return undefined;
+  const diff = await computeDiffPreview(sandbox, toolName, input);
+  return { diff, preview: truncateDiffs(diff) };
+}
+
+/**
+ * Caps the total number of diff lines, keeping files in order.
+ */
+export function truncateDiffs(diffs: FileDiff[], maxLines = MAX_PREVIEW_LINES): FileDiff[] {
+  let remaining = maxLines;
+  return diffs.map((file) => {
+    if (!file.diff) return file;
+    const lines = file.diff.split('\n');
+    if (lines.length <= remaining) {
+      remaining -= lines.length;
+      return file;
+    }
+    const kept = lines.slice(0, Math.max(remaining, 0));
+    remaining = 0;
+    return { ...file, diff: kept.join('\n'), truncated: true };
+  });
+}
+
+function toChanges(toolName: string, input: Record<string, unknown>): FileChange[] {
+  switch (toolName) {
+    case 'fs_write': {
+      const content = String(input.content ?? '');
+      return [{ path: String(input.path ?? ''), apply: () => content }];
+    }
+    case 'fs_edit':
+      return [editChange(input)];
+    case 'fs_multi_edit':
+      return Array.isArray(input.edits) ? input.edits.map((edit) => editChange(edit as Record<string, unknown>)) : [];
+    default:
+      return [];
+  }
+}
+
+function editChange(edit: Record<string, unknown>): FileChange {
+  const find = String(edit.old_string ?? edit.find ?? '');
+  const replace = String(edit.new_string ?? edit.replace ?? '');
+  const replaceAll = edit.replace_all === true;
+  return {
+    path: String(edit.path ?? ''),
+    apply: (current) => {
+      if (!current.includes(find)) throw new Error(`未找到要替换的内容: ${find.slice(0, 80)}`);
+      return replaceAll ? current.split(find).join(replace) : current.replace(find, () => replace);
+    },
+  };
+}
@@ -10,14 +10,23 @@ interface InjectionItem {
   metadata: { taskId: string; type: 'task_result' | 'task_failed' | 'task_cancelled' | 'chat_result' | 'chat_failed' };
 }
 
+/** A message answered or dispatched by the intent fast path, without the orchestrator */
+export interface SideExchange {
+  role: 'user' | 'assistant';
+  content: string;
+}
+
 export class InjectionQueue {
   private queue: InjectionItem[] = [];
   private processing = false;
+  private sideExchanges: SideExchange[] = [];
 
   constructor(
     private agent: Agent,
     private sseManager: SSEManager,
     private chatLock: ChatLock,
+    private sessionId: string,
+    private userId: string,
   ) {}
 
   enqueue(item: InjectionItem): void {
@@ -26,6 +35,33 @@ export class InjectionQueue {
     this.processNext();
   }
 
+  get isIdle(): boolean {
+    // Unflushed side exchanges exist only in memory, so they keep the session loaded
+    return !this.processing && this.queue.length === 0 && this.sideExchanges.length === 0;
+  }
+
+  /**
+   * Record an exchange handled outside the orchestrator; it is handed to the
+   * orchestrator at the start of its next turn, so its history stays complete.
+   */
+  recordSideExchange(role: SideExchange['role'], content: string): void {
+    this.sideExchanges.push({ role, content });
+  }
+
+  get pendingSideExchanges(): SideExchange[] {
+    return [...this.sideExchanges];
+  }
+
+  /**
+   * Drain the recorded exchanges as a prefix for the orchestrator's next message.
+   */
+  takeSideExchanges(): string {
+    if (this.sideExchanges.length === 0) return '';
+    const lines = this.sideExchanges.map((e) => `${e.role === 'user' ? '用户' : '助手'}：${e.content}`);
+    this.sideExchanges = [];
+    return `[以下对话已由快速通道直接处理，未经过你，仅供参考]\n${lines.join('\n')}\n\n`;
+  }
+
   private async processNext(): Promise<void> {
     if (this.processing || this.queue.length === 0) return;
     this.processing = true;
@@ -48,25 +84,27 @@ export class InjectionQueue {
   private async injectAndStream(item: InjectionItem): Promise<void> {
     this.sseManager.send({
       type: 'orchestrator_start',
-      data: { taskId: item.metadata.taskId, reason: item.metadata.type },
+      data: { sessionId: this.sessionId, userId: this.userId, taskId: item.metadata.taskId, reason: item.metadata.type },
     });
 
     let fullText = '';
 
-    for await (const envelope of this.agent.chatStream(item.message)) {
+    for await (const envelope of this.agent.chatStream(this.takeSideExchanges() + item.message)) {
       const event = envelope.event as any;
       switch (event.type) {
         case 'text_chunk':
           fullText += event.delta;
           this.sseManager.send({
             type: 'orchestrator_text',
-            data: { delta: event.delta },
+            data: { sessionId: this.sessionId, userId: this.userId, delta: event.delta },
           });
           break;
         case 'tool:start':
           this.sseManager.send({
             type: 'tool_start',
             data: {
+              sessionId: this.sessionId,
+              userId: this.userId,
               name: event.call?.name,
               toolCallId: event.call?.id,
               input: event.call?.inputPreview,
@@ -78,6 +116,8 @@ export class InjectionQueue {
           this.sseManager.send({
             type: 'tool_end',
             data: {
+              sessionId: this.sessionId,
+              userId: this.userId,
               name: event.call?.name,
               toolCallId: event.call?.id,
               result: event.call?.result,
@@ -89,7 +129,7 @@ export class InjectionQueue {
         case 'done':
           this.sseManager.send({
             type: 'orchestrator_done',
-            data: { reason: 'completed', fullText },
+            data: { sessionId: this.sessionId, userId: this.userId, reason: 'completed', fullText },
           });
           break;
       }
@@ -107,6 +147,7 @@ export class InjectionQueue {
     result?: string;
     error?: string;
     cancelReason?: string;
+    artifactCount?: number;
   }): string {
     if (task.status === 'completed') {
       let result = task.result || '(无输出)';
@@ -115,7 +156,8 @@ export class InjectionQueue {
       }
       return `[子任务完成] taskId=${task.id}, agent=${task.templateId}\n` +
         `描述: ${task.description}\n` +
-        `交付物:\n${result}`;
+        `交付物:\n${result}` +
+        (task.artifactCount ? `\n产物文件: ${task.artifactCount} 个，用户可在任务的产物列表中下载` : '');
     }
     if (task.status === 'cancelled') {
       return `[子任务已取消] taskId=${task.id}, agent=${task.templateId}\n` +
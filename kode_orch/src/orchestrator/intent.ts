@@ -1,3 +1,7 @@
+import type { ModelProvider } from '@shareai-lab/kode-sdk';
+import { z } from 'zod';
+import { logger } from '../utils/logger.js';
+
 export interface IntentResult {
   category: 'research' | 'analysis' | 'execution' | 'review' | 'testing' | 'chat' | 'multi_step';
   confidence: number;
@@ -5,6 +9,26 @@ export interface IntentResult {
   reasoning: string;
 }
 
+/**
+ * chat: answered by the router's model, skipping the orchestrator turn
+ * direct: dispatch straight to a sub-agent, skipping the orchestrator turn
+ * orchestrate: normal orchestrator flow
+ */
+export type RouteDecision = 'chat' | 'direct' | 'orchestrate';
+
+export interface IntentRouterOptions {
+  confidenceThreshold: number;
+  directDispatch: boolean;
+  agentTypes: string[];
+}
+
+const intentSchema = z.object({
+  category: z.enum(['research', 'analysis', 'execution', 'review', 'testing', 'chat', 'multi_step']),
+  confidence: z.number().min(0).max(1),
+  agentType: z.string(),
+  reasoning: z.string().default(''),
+});
+
 export function buildIntentPrompt(userMessage: string, skillSummary: string): string {
   return `分析以下用户消息的意图，判断应该路由到哪个子 Agent。
 
@@ -20,7 +44,83 @@ ${skillSummary}
 
 用户消息：${userMessage}
 
-如果是简单问答，回复 "none"（由 Orchestrator 直接回复）。
-如果是复杂任务需要多步执行，主 Agent 自行规划，不需要路由。
-请直接回复应该使用哪个 agent（仅回复 agent id，或 "none"）。`;
+分类规则：
+- 简单问答、闲聊 → category 为 "chat"，agentType 为 "none"（直接回复）
+- 复杂任务需要多步执行 → category 为 "multi_step"，agentType 为 "none"（主 Agent 自行规划）
+- 单个子 Agent 就能完成 → category 为 research/analysis/execution/review/testing，agentType 为对应的 agent id
+
+只输出一个 JSON 对象，不要输出其他内容：
+{"category": "...", "confidence": 0.0-1.0, "agentType": "...", "reasoning": "一句话理由"}`;
+}
+
+export function buildChatPrompt(userMessage: string, context: string): string {
+  return `你是用户的个人助理。请直接、简洁地回复下面的消息，不要提及任务派发或子 Agent。
+${context ? `\n[系统注入的上下文]\n${context}\n` : ''}
+用户消息：${userMessage}`;
+}
+
+export function parseIntentResult(text: string): IntentResult {
+  const json = text.match(/\{[\s\S]*\}/);
+  if (!json) throw new Error(`No JSON object in intent response: ${text.slice(0, 200)}`);
+  return intentSchema.parse(JSON.parse(json[0]));
+}
+
+/**
+ * Pre-routing stage for handleChat: classifies a message with a cheap model call.
+ * Failures fall back to the normal orchestrator flow.
+ */
+export class IntentRouter {
+  constructor(
+    private provider: ModelProvider,
+    private getSkillSummary: () => string,
+    private opts: IntentRouterOptions,
+  ) {}
+
+  async classify(message: string): Promise<IntentResult> {
+    const startedAt = Date.now();
+    try {
+      const response = await this.provider.complete(
+        [{ role: 'user', content: [{ type: 'text', text: buildIntentPrompt(message, this.getSkillSummary()) }] }],
+        { maxTokens: 300 },
+      );
+      const intent = parseIntentResult(textOf(response));
+      logger.info('intent', 'Classified message', { ...intent, durationMs: Date.now() - startedAt, preview: message.slice(0, 100) });
+      return intent;
+    } catch (err) {
+      logger.warn('intent', 'Classification failed, falling back to orchestrator', { error: String(err) });
+      return { category: 'multi_step', confidence: 0, agentType: 'none', reasoning: 'classification failed' };
+    }
+  }
+
+  /**
+   * Reply to a chat intent without an orchestrator turn.
+   * Returns undefined on failure so the caller can fall back to the orchestrator.
+   */
+  async answer(message: string, context = ''): Promise<string | undefined> {
+    try {
+      const response = await this.provider.complete(
+        [{ role: 'user', content: [{ type: 'text', text: buildChatPrompt(message, context) }] }],
+        { maxTokens: 1000 },
+      );
+      return textOf(response).trim() || undefined;
+    } catch (err) {
+      logger.warn('intent', 'Direct answer failed, falling back to orchestrator', { error: String(err) });
+      return undefined;
+    }
+  }
+
+  decide(intent: IntentResult): RouteDecision {
+    if (intent.confidence < this.opts.confidenceThreshold) return 'orchestrate';
+    if (intent.category === 'chat') return 'chat';
+    if (intent.category === 'multi_step') return 'orchestrate';
+    if (this.opts.directDispatch && this.opts.agentTypes.includes(intent.agentType)) return 'direct';
+    return 'orchestrate';
+  }
+}
+
+function textOf(response: { content: any[] }): string {
+  return response.content
+    .filter((b: any) => b.type === 'text')
+    .map((b: any) => b.text)
+    .join('');
 }
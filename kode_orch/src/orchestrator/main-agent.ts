@@ -13,11 +13,11 @@ import { MemoryManager } from '../memory/memory-manager.js';
 import { logger } from '../utils/logger.js';
 
 export const SUB_AGENT_TEMPLATES = [
-  { id: 'research-agent', system: '调研专家', tools: ['fs_read', 'fs_glob', 'fs_grep', 'bash_run'], whenToUse: '调研、搜索、信息收集' },
-  { id: 'analyst-agent', system: '分析专家', tools: ['fs_read', 'fs_glob', 'fs_grep'], whenToUse: '需求分析、方案设计' },
-  { id: 'executor-agent', system: '执行专家', tools: ['fs_read', 'fs_write', 'fs_edit', 'fs_multi_edit', 'fs_glob', 'fs_grep', 'bash_run', 'bash_logs', 'bash_kill', 'sandbox_preview'], whenToUse: '执行具体任务（写代码、写文档、操作文件）' },
-  { id: 'reviewer-agent', system: '审查专家', tools: ['fs_read', 'fs_glob', 'fs_grep'], whenToUse: '代码审查、方案评审、质量检查' },
-  { id: 'tester-agent', system: '测试专家', tools: ['fs_read', 'fs_glob', 'fs_grep', 'bash_run', 'bash_logs', 'bash_kill'], whenToUse: '运行测试、验证功能、检查结果' },
+  { id: 'research-agent', system: '调研专家', tools: ['fs_read', 'fs_glob', 'fs_grep', 'bash_run', 'report_progress'], whenToUse: '调研、搜索、信息收集' },
+  { id: 'analyst-agent', system: '分析专家', tools: ['fs_read', 'fs_glob', 'fs_grep', 'report_progress'], whenToUse: '需求分析、方案设计' },
+  { id: 'executor-agent', system: '执行专家', tools: ['fs_read', 'fs_write', 'fs_edit', 'fs_multi_edit', 'fs_glob', 'fs_grep', 'bash_run', 'bash_logs', 'bash_kill', 'sandbox_preview', 'report_progress'], whenToUse: '执行具体任务（写代码、写文档、操作文件）' },
+  { id: 'reviewer-agent', system: '审查专家', tools: ['fs_read', 'fs_glob', 'fs_grep', 'report_progress'], whenToUse: '代码审查、方案评审、质量检查' },
+  { id: 'tester-agent', system: '测试专家', tools: ['fs_read', 'fs_glob', 'fs_grep', 'bash_run', 'bash_logs', 'bash_kill', 'report_progress'], whenToUse: '运行测试、验证功能、检查结果' },
 ];
 
 export function buildOrchestratorTemplate(skillSummary: string): AgentTemplateDefinition {
@@ -35,14 +35,14 @@ export function buildOrchestratorTemplate(skillSummary: string): AgentTemplateDe
 2. 复杂任务先制定计划（可用 todo_write 记录），再逐步派发
 3. 子 Agent 完成后，系统会自动将结果回传给你
 4. 你收到结果后：
-   a. 如果还有后续步骤 → 派发下一个子 Agent（可将上一步结果作为 context）
+   a. 如果还有未派发的后续步骤 → 派发下一个子 Agent（已用 dependsOn 派发的下游任务会自动启动，不要重复派发）
    b. 如果所有步骤完成 → 汇总结果，给用户一个完整、专业的回复
    c. 如果部分失败 → 决定重试/跳过/告知用户
 5. 对用户保持主动沟通 — 进度更新、结果汇报都由你来说
 
 任务编排规则：
 - 可并行的任务同时派发（如同时调研多个主题）
-- 有依赖关系的任务串行派发（前一个完成后再派下一个）
+- 有依赖关系的任务用 bg_task_run 的 dependsOn 一次性派发：下游任务会等前置任务完成后自动启动，并自动拿到前置任务结果，无需等你再派发
 - 每个子任务派发后，简要告知用户进度
 - 不要原样转发子 Agent 的回复，要加上你的分析和判断
 
@@ -70,7 +70,7 @@ ${skillSummary}
 - 用 bg_task_status 查看正在执行中的任务进度
 
 任务控制工具：
-- bg_task_cancel: 取消正在运行或排队中的任务。用于：任务不再需要、子 Agent 似乎卡住
+- bg_task_cancel: 取消正在运行、排队中或等待前置任务的任务（下游依赖任务会被级联取消）。用于：任务不再需要、子 Agent 似乎卡住
 - bg_task_retry: 对失败/取消的任务重试，可修改指令。用于：临时错误、指令不够清晰
 - bg_task_redo: 对已完成任务打回重做，附加改进反馈。用于：结果质量不达标
 - bg_task_message: 向运行中的子 Agent 追加指令。用于：中途补充要求、方向修正
@@ -119,8 +119,27 @@ export interface CreateOrchestratorOptions {
   memoryManager: MemoryManager;
 }
 
-export async function createOrchestrator(opts: CreateOrchestratorOptions): Promise<Agent> {
-  const { sdkStore, provider, sandbox, templateRegistry, skillLoader, memoryManager } = opts;
+export async function createOrchestrator(opts: CreateOrchestratorOptions, agentId?: string): Promise<Agent> {
+  const { config, deps } = prepareOrchestrator(opts, agentId);
+  const agent = await Agent.create(config, deps);
+
+  logger.info('main-agent', 'Orchestrator agent created', { agentId: agent.agentId });
+  return agent;
+}
+
+/**
+ * Resume a session's orchestrator from the SDK store (history, todos).
+ */
+export async function resumeOrchestrator(opts: CreateOrchestratorOptions, agentId: string): Promise<Agent> {
+  const { config, deps } = prepareOrchestrator(opts, agentId);
+  const agent = await Agent.resume(agentId, config, deps, { strategy: 'crash' });
+
+  logger.info('main-agent', 'Orchestrator agent resumed', { agentId });
+  return agent;
+}
+
+function prepareOrchestrator(opts: CreateOrchestratorOptions, agentId?: string) {
+  const { sdkStore, provider, sandbox, templateRegistry, skillLoader } = opts;
 
   // bg_task_run / bg_task_status tools are registered externally (in index.ts)
   // because they need the BgTaskRunner instance
@@ -132,7 +151,6 @@ export async function createOrchestrator(opts: CreateOrchestratorOptions): Promi
   // Create sandbox factory for deps
   const sandboxFactory = new SandboxFactory();
 
-  // Create agent
   const deps = {
     store: sdkStore,
     templateRegistry,
@@ -140,15 +158,12 @@ export async function createOrchestrator(opts: CreateOrchestratorOptions): Promi
     sandboxFactory,
   };
 
-  const agent = await Agent.create(
-    {
-      templateId: 'orchestrator',
-      model: provider,
-      sandbox,
-    },
-    deps,
-  );
+  const config = {
+    templateId: 'orchestrator',
+    agentId,
+    model: provider,
+    sandbox,
+  };
 
-  logger.info('main-agent', 'Orchestrator agent created');
-  return agent;
+  return { config, deps };
 }
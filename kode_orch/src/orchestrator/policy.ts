@@ -0,0 +1,210 @@
+import { readFile } from 'node:fs/promises';
+import { watch, type FSWatcher } from 'node:fs';
+import { basename, dirname, extname, resolve } from 'node:path';
+import { parse as parseYaml } from 'yaml';
+import { z } from 'zod';
+import { extractCommand, isSafeCommand } from './safe-commands.js';
+import type { ApprovalExpiry } from './approval.js';
+import { logger } from '../utils/logger.js';
+
+export type PolicyAction = 'allow' | 'deny' | 'ask';
+
+/** A tool call as seen by the policy */
+export interface PolicyInput {
+  toolName: string;
+  input: unknown;           // the call's inputPreview
+  templateId?: string;
+  skills?: string[];
+  sandboxKind?: string;
+}
+
+export interface PolicyDecision {
+  action: PolicyAction;
+  rule?: string;            // name of the matching rule; undefined when the default applied
+  reason: string;
+  expiry?: ApprovalExpiry;  // for ask: overrides the configured approval TTL / default outcome
+}
+
+const stringOrList = z.union([z.string().min(1), z.array(z.string().min(1)).min(1)])
+  .transform((v) => (Array.isArray(v) ? v : [v]));
+
+/**
+ * All fields are optional and ANDed; a list matches if any entry matches.
+ * A call touching several paths matches `path` when any of them does, except
+ * for allow rules, where every path must match.
+ */
+const matchSchema = z.object({
+  tool: stringOrList.optional(),          // tool name globs, e.g. fs_*
+  template: stringOrList.optional(),
+  skill: stringOrList.optional(),         // any of the task's skills
+  sandbox: stringOrList.optional(),
+  path: stringOrList.optional(),          // path globs for fs tools
+  command: stringOrList.optional(),       // regexes against the bash command
+  safeCommand: z.boolean().optional(),    // built-in read-only command whitelist
+}).strict();
+
+const ruleSchema = z.object({
+  name: z.string().min(1),
+  match: matchSchema.default({}),
+  action: z.enum(['allow', 'deny', 'ask']),
+  reason: z.string().optional(),
+  ttlMs: z.number().int().positive().optional(),        // ask only: approval TTL
+  onExpire: z.enum(['allow', 'deny']).optional(),        // ask only: outcome when nobody answers
+}).strict();
+
+const policySchema = z.object({
+  default: z.enum(['allow', 'deny', 'ask']).default('ask'),
+  rules: z.array(ruleSchema).default([]),
+}).strict();
+
+export type PolicyRule = z.infer<typeof ruleSchema>;
+export type Policy = z.infer<typeof policySchema>;
+
+/** Equivalent of the previous hard-coded chain, used when no POLICY_FILE is set */
+export const DEFAULT_POLICY: Policy = {
+  default: 'ask',
+  rules: [
+    { name: 'e2b-sandbox', match: { sandbox: ['e2b'] }, action: 'allow', reason: 'E2B 沙箱为隔离环境，自动放行' },
+    { name: 'docker-sandbox', match: { sandbox: ['docker'] }, action: 'allow', reason: 'Docker 容器沙箱为隔离环境，自动放行' },
+    { name: 'safe-command', match: { tool: ['bash_run'], safeCommand: true }, action: 'allow', reason: '只读安全命令，自动放行' },
+  ],
+};
+
+export function parsePolicy(text: string, format: 'yaml' | 'json'): Policy {
+  const raw = format === 'json' ? JSON.parse(text) : parseYaml(text);
+  const policy = policySchema.parse(raw ?? {});
+  for (const rule of policy.rules) {
+    // Fail on load rather than on the first matching call
+    for (const pattern of rule.match.command ?? []) new RegExp(pattern);
+  }
+  return policy;
+}
+
+/**
+ * First matching rule wins; without a match the policy's default applies.
+ */
+export function evaluatePolicy(policy: Policy, input: PolicyInput): PolicyDecision {
+  for (const rule of policy.rules) {
+    if (matches(rule.match, rule.action, input)) {
+      const decision: PolicyDecision = { action: rule.action, rule: rule.name, reason: rule.reason ?? `匹配规则 ${rule.name}` };
+      if (rule.action === 'ask' && (rule.ttlMs !== undefined || rule.onExpire !== undefined)) {
+        decision.expiry = { ttlMs: rule.ttlMs, outcome: rule.onExpire };
+      }
+      return decision;
+    }
+  }
+  return { action: policy.default, reason: '未匹配任何规则，使用默认策略' };
+}
+
+function matches(match: PolicyRule['match'], action: PolicyAction, input: PolicyInput): boolean {
+  if (match.tool && !match.tool.some((p) => globToRegExp(p).test(input.toolName))) return false;
+  if (match.template && !(input.templateId && match.template.includes(input.templateId))) return false;
+  if (match.skill && !(input.skills ?? []).some((s) => match.skill!.includes(s))) return false;
+  if (match.sandbox && !(input.sandboxKind && match.sandbox.includes(input.sandboxKind))) return false;
+  if (match.path) {
+    const paths = extractPaths(input.input);
+    const matchesPath = (path: string) => match.path!.some((p) => globToRegExp(p).test(path));
+    // An allow must not let one matching path carry the others through
+    if (action === 'allow' ? paths.length === 0 || !paths.every(matchesPath) : !paths.some(matchesPath)) return false;
+  }
+  if (match.command) {
+    const command = extractCommand(input.input);
+    if (command === null || !match.command.some((p) => new RegExp(p).test(command))) return false;
+  }
+  if (match.safeCommand !== undefined && isSafeCommand(input.input) !== match.safeCommand) return false;
+  return true;
+}
+
+const PATH_KEYS = ['path', 'file_path', 'filePath', 'file', 'target'];
+
+/**
+ * Paths touched by an fs tool call (single path fields, path lists and multi-edit entries).
+ */
+export function extractPaths(input: unknown): string[] {
+  if (!input || typeof input !== 'object') return [];
+  const preview = input as Record<string, unknown>;
+  const paths: string[] = [];
+  for (const key of PATH_KEYS) {
+    if (typeof preview[key] === 'string') paths.push(preview[key] as string);
+  }
+  for (const key of ['paths', 'files', 'edits']) {
+    const list = preview[key];
+    if (!Array.isArray(list)) continue;
+    for (const item of list) {
+      if (typeof item === 'string') paths.push(item);
+      else paths.push(...extractPaths(item));
+    }
+  }
+  return paths.map((p) => p.replace(/^\.\//, ''));
+}
+
+/**
+ * `**` spans directories, `*` and `?` stay within one path segment.
+ */
+export function globToRegExp(glob: string): RegExp {
+  let source = '';
+  for (let i = 0; i < glob.length; i++) {
+    const ch = glob[i];
+    if (ch === '*' && glob[i + 1] === '*') {
+      // "**/" also matches zero directories
+      if (glob[i + 2] === '/') {
+        source += '(?:.*/)?';
+        i += 2;
+      } else {
+        source += '.*';
+        i += 1;
+      }
+    } else if (ch === '*') {
+      source += '[^/]*';
+    } else if (ch === '?') {
+      source += '[^/]';
+    } else {
+      source += ch.replace(/[.+^${}()|[\]\\]/g, '\\$&');
+    }
+  }
+  return new RegExp(`^${source}$`);
+}
+
+/**
+ * Holds the active policy and reloads it when the rules file changes.
+ * A file that fails to parse is logged and the previous policy stays active.
+ */
+export class PolicyEngine {
+  private policy: Policy = DEFAULT_POLICY;
+  private watcher?: FSWatcher;
+  private reloadTimer?: ReturnType<typeof setTimeout>;
+  private loadedAt = Date.now();
+
+  constructor(private file?: string) {}
+
+  async load(): Promise<void> {
+    if (!this.file) return;
+    const format = extname(this.file) === '.json' ? 'json' : 'yaml';
+    this.policy = parsePolicy(await readFile(this.file, 'utf-8'), format);
+    this.loadedAt = Date.now();
+    logger.info('policy', 'Policy loaded', { file: this.file, rules: this.policy.rules.length, default: this.policy.default });
+  }
+
+  watch(): void {
+    if (!this.file || this.watcher) return;
+    // Watch the directory: editors that save via a temp file and rename replace the watched inode
+    const name = basename(this.file);
+    this.watcher = watch(dirname(resolve(this.file)), (_event, filename) => {
+      if (filename && filename.toString() !== name) return;
+      // Editors fire several events per save
+      clearTimeout(this.reloadTimer);
+      this.reloadTimer = setTimeout(() => {
+        this.load().catch((err) => logger.warn('policy', 'Policy reload failed, keeping previous policy', { error: String(err) }));
+      }, 200);
+    });
+    this.watcher.unref();
+  }
+
+  evaluate(input: PolicyInput): PolicyDecision {
+    return evaluatePolicy(this.policy, input);
+  }
+
+  describe(): { source: string; loadedAt: number; policy: Policy } {
+    return { source: this.file ?? 'builtin', loadedAt: this.loadedAt, policy: this.policy };
+  }
+}
@@ -1,5 +1,6 @@
 export interface ProgressInfo {
   taskId: string;
+  userId?: string;     // owner, used to scope SSE delivery
   percent: number;
   stage: string;
   message: string;
@@ -8,6 +9,14 @@ export interface ProgressInfo {
   estimatedRemaining?: number;
 }
 
+export interface PlanItem {
+  title: string;
+  status: 'pending' | 'in_progress' | 'completed' | string;
+}
+
+/** taskId used for the orchestrator's overall todo plan */
+export const PLAN_PROGRESS_ID = 'plan';
+
 export class ProgressTracker {
   private tasks: Map<string, ProgressInfo> = new Map();
   private timers: Map<string, NodeJS.Timeout> = new Map();
@@ -17,9 +26,10 @@ export class ProgressTracker {
     private onProgress: (info: ProgressInfo) => void,
   ) {}
 
-  start(taskId: string, initialStage: string): void {
+  start(taskId: string, initialStage: string, userId?: string): void {
     const info: ProgressInfo = {
       taskId,
+      userId,
       percent: 0,
       stage: initialStage,
       message: `开始执行: ${initialStage}`,
@@ -48,6 +58,27 @@ export class ProgressTracker {
     this.onProgress(info);
   }
 
+  /**
+   * Overall plan progress from the orchestrator's todo list.
+   * Each session passes its own planId.
+   */
+  updatePlan(items: PlanItem[], planId = PLAN_PROGRESS_ID, userId?: string): void {
+    if (items.length === 0) {
+      this.finish(planId);
+      return;
+    }
+    const done = items.filter((i) => i.status === 'completed').length;
+    const current = items.find((i) => i.status === 'in_progress');
+    if (!this.tasks.has(planId)) this.start(planId, '计划', userId);
+    this.update(
+      planId,
+      Math.round((done / items.length) * 100),
+      current?.title ?? '计划',
+      `${done}/${items.length} 项已完成`,
+    );
+    if (done === items.length) this.finish(planId);
+  }
+
   finish(taskId: string): void {
     const timer = this.timers.get(taskId);
     if (timer) clearInterval(timer);
@@ -55,7 +86,7 @@ export class ProgressTracker {
     this.tasks.delete(taskId);
   }
 
-  getAll(): ProgressInfo[] {
-    return [...this.tasks.values()];
+  getAll(userId?: string): ProgressInfo[] {
+    return [...this.tasks.values()].filter((info) => userId === undefined || info.userId === userId);
   }
 }
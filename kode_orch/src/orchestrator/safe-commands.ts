@@ -1,108 +1,176 @@
 /**
- * 安全命令白名单：这些 bash 命令不需要人工审批，自动放行。
+ * 安全命令判定：这些 bash 命令不需要人工审批，自动放行。
  * 判断标准：只读、无副作用、不修改文件系统、不执行任意代码。
+ *
+ * 命令先经 shell-parser 拆成管道 / && / ; 链 / 子 shell 中的每个简单命令，
+ * 再逐个按命令名和参数规则判定；任何一个命令或重定向不安全，整条命令即需审批。
  */
+import { parseShell, commandToString, ShellParseError, type ShellNode, type ShellCommand, type ShellRedirect, type ShellWord } from './shell-parser.js';
 
-// 安全命令前缀（命令本身或 command + 空格）
-const SAFE_COMMAND_PREFIXES: string[] = [
-  // 文件/目录查看（只读）
-  'ls', 'cat', 'head', 'tail', 'less', 'more',
-  'wc', 'file', 'stat', 'du', 'df',
-  'find', 'locate', 'tree',
-
-  // 文本搜索（只读）
-  'grep', 'egrep', 'fgrep', 'rg', 'ag', 'ack',
-
-  // 系统信息（只读）
-  'pwd', 'whoami', 'id', 'which', 'type', 'where',
-  'echo', 'printf',
-  'date', 'uptime', 'uname', 'hostname',
-  'env', 'printenv',
-  'free', 'top -bn1', 'ps', 'lsof',
-  'nproc', 'lscpu', 'arch',
-
-  // 网络查询（只读）
-  'curl', 'wget -O -', 'wget --spider', 'wget -q',
-  'ping -c', 'dig', 'nslookup', 'host',
-
-  // 版本/帮助查看
-  'node --version', 'node -v', 'node -e',
-  'npm list', 'npm ls', 'npm view', 'npm info', 'npm show',
-  'npm --version', 'npm -v',
-  'npx --version',
-  'pnpm list', 'pnpm ls', 'pnpm --version',
-  'python --version', 'python3 --version', 'python -V', 'python3 -V',
-  'pip list', 'pip show', 'pip3 list', 'pip3 show',
-  'go version', 'rustc --version', 'cargo --version',
-  'java -version', 'javac -version',
-
-  // Git 只读操作
-  'git status', 'git log', 'git diff', 'git show',
-  'git branch', 'git tag', 'git remote',
-  'git ls-files', 'git ls-tree', 'git rev-parse',
-  'git describe', 'git blame', 'git shortlog',
-  'git stash list', 'git config --list', 'git config --get',
-
-  // 包管理只读
-  'npm run lint', 'npm run typecheck', 'npm run check',
-  'npm run build', 'npm run test', 'npm test', 'npm run dev',
-  'pnpm run lint', 'pnpm run build', 'pnpm run test', 'pnpm test',
-  'npx tsc --noEmit', 'npx tsc',
-
-  // 项目构建/测试（通常安全）
-  'tsc', 'eslint', 'prettier --check', 'jest', 'vitest', 'mocha',
-  'pytest', 'go test', 'cargo test',
-  'make check', 'make test', 'make lint',
-
-  // jq / yq 数据处理（只读）
-  'jq', 'yq',
-
-  // 其他只读
-  'diff', 'cmp', 'md5sum', 'sha256sum', 'shasum',
-  'sort', 'uniq', 'cut', 'awk', 'sed -n', 'tr',
+/** 单个简单命令的判定 */
+export interface CommandCheck {
+  command: string;
+  safe: boolean;
+  reason: string;
+}
+
+/** 整条命令的判定结果，展示在审批界面 */
+export interface CommandVerdict {
+  safe: boolean;
+  reason: string;
+  commands: CommandCheck[];
+}
+
+/**
+ * 参数检查：返回 null 表示安全，否则返回不安全的原因。
+ * args 不含命令名；动态参数（含 $VAR / $( )）在调用前已被拒绝。
+ */
+type ArgRule = (args: string[]) => string | null;
+
+const allow: ArgRule = () => null;
+
+// 命令本身只读，任意参数都安全
+const READ_ONLY_COMMANDS = [
+  // 文件/目录查看
+  'ls', 'cat', 'head', 'tail', 'more', 'wc', 'file', 'stat', 'du', 'df', 'locate',
+  // 文本搜索
+  'grep', 'egrep', 'fgrep',
+  // 系统信息
+  'pwd', 'whoami', 'id', 'which', 'type', 'echo', 'printf', 'uptime', 'uname',
+  'printenv', 'free', 'ps', 'lsof', 'nproc', 'lscpu', 'arch',
+  // 网络查询
+  'dig', 'nslookup', 'host',
+  // 数据处理
+  'jq', 'diff', 'cmp', 'md5sum', 'sha256sum', 'shasum', 'cut', 'tr',
   'basename', 'dirname', 'realpath', 'readlink',
+  // shell 内建
+  'cd', 'true', 'false', 'test', '[',
 ];
 
-// 危险子字符串黑名单（即使命令前缀匹配，包含这些也拒绝自动放行）
-const DANGEROUS_PATTERNS: RegExp[] = [
-  /\brm\s/,             // 删除
-  /\brmdir\b/,
-  /\bmkdir\b/,
-  /\bmv\s/,             // 移动/重命名
-  /\bcp\s/,             // 复制
-  /\bchmod\b/,          // 权限修改
-  /\bchown\b/,
-  /\bsudo\b/,
-  /\bsu\s/,
-  />\s*/,               // 输出重定向（可能覆盖文件）
-  /\bdd\b/,
-  /\bkill\b/,
-  /\bpkill\b/,
-  /\bshutdown\b/,
-  /\breboot\b/,
-  /\bsystemctl\b/,
-  /\bservice\b/,
-  /\bnpm\s+publish\b/,
-  /\bgit\s+push\b/,
-  /\bgit\s+reset\b/,
-  /\bgit\s+checkout\b/,
-  /\bgit\s+merge\b/,
-  /\bgit\s+rebase\b/,
-  /\bgit\s+commit\b/,
-  /\bgit\s+add\b/,
-  /\bcurl\s.*(-X\s*(POST|PUT|DELETE|PATCH)|-d\s)/i,  // curl 写操作
-  /\bwget\s.*-O\s+[^-]/,  // wget 下载到文件
-  /`[^`]+`/,            // 反引号子命令
-  /\$\(/,               // $() 子命令（放宽到仅阻止在危险上下文中）
-  /\|\s*(bash|sh|zsh|exec)\b/,  // 管道到 shell
-  /;\s*(rm|mv|cp|chmod|chown|sudo)\b/, // 分号后跟危险命令
-];
+// 项目测试：执行的是项目自己的代码，参数不做限制，但不能接受 xargs 追加的参数
+const TEST_COMMANDS = ['tsc', 'jest', 'vitest', 'mocha', 'pytest'];
+
+const COMMAND_RULES: Record<string, ArgRule> = {
+  ...Object.fromEntries([...READ_ONLY_COMMANDS, ...TEST_COMMANDS].map((name) => [name, allow])),
+
+  find: (args) => {
+    const bad = args.find((a) => /^-(exec|execdir|ok|okdir|delete|fprint|fprint0|fprintf|fls)$/.test(a));
+    return bad ? `find ${bad} 会执行命令或修改文件` : null;
+  },
+  tree: (args) => optionsOnly('tree', args, TREE_OPTIONS),
+  less: (args) => {
+    const parsed = parseOptions('less', args, LESS_OPTIONS);
+    if (typeof parsed === 'string') return parsed;
+    // +cmd 在启动时执行 less 命令，其中 ! 会调用 shell；只允许跳转类的 +G、+F、+<行号>
+    const bad = parsed.positionals.find((a) => a.startsWith('+') && !/^\+\d*[GgF]?$/.test(a));
+    return bad ? `less ${bad} 会执行 less 命令` : null;
+  },
+  rg: (args) => (args.some((a) => a === '--pre' || a.startsWith('--pre=')) ? 'rg --pre 会执行外部命令' : null),
+  ag: (args) => (args.some((a) => a.startsWith('--pager')) ? 'ag --pager 会执行外部命令' : null),
+  ack: (args) => (args.some((a) => a.startsWith('--pager')) ? 'ack --pager 会执行外部命令' : null),
+  sed: checkSed,
+  awk: checkAwk,
+  gawk: checkAwk,
+  mawk: checkAwk,
+  sort: (args) => optionsOnly('sort', args, SORT_OPTIONS),
+  uniq: (args) => (positionals(args).length > 1 ? 'uniq 的第二个参数是输出文件' : null),
+  yq: (args) => (hasOption(args, ['-i', '--inplace']) ? 'yq -i 会原地修改文件' : null),
+  date: (args) => {
+    if (hasOption(args, ['-s', '--set'])) return 'date -s 会修改系统时间';
+    return positionals(args).some((a) => !a.startsWith('+')) ? 'date 的非格式参数会修改系统时间' : null;
+  },
+  hostname: (args) => (positionals(args).length > 0 ? 'hostname 带参数会修改主机名' : null),
+  ping: (args) => (args.some((a) => /^-c/.test(a)) ? null : 'ping 需要 -c 限定次数'),
+  top: (args) => (args.some((a) => /^-[a-zA-Z]*b/.test(a)) && args.some((a) => /^-[a-zA-Z]*n/.test(a)) ? null : 'top 需要 -b -n 批处理模式'),
+
+  curl: checkCurl,
+  wget: checkWget,
+
+  git: checkGit,
+  npm: checkPackageManager,
+  pnpm: checkPackageManager,
+  yarn: checkPackageManager,
+  npx: (args) => {
+    if (args.length === 1 && args[0] === '--version') return null;
+    return args[0] === 'tsc' ? null : 'npx 会下载并执行任意包';
+  },
+  pip: checkPip,
+  pip3: checkPip,
+  node: versionOnly,
+  python: versionOnly,
+  python3: versionOnly,
+  java: versionOnly,
+  javac: versionOnly,
+  rustc: versionOnly,
+  go: checkGo,
+  cargo: (args) => (['--version', 'test'].includes(args[0]) ? null : `cargo ${args[0] ?? ''} 不在只读子命令列表`.trim()),
+  make: (args) => (args.length === 1 && ['check', 'test', 'lint'].includes(args[0]) ? null : '只允许 make check / test / lint'),
+  eslint: (args) => (args.some((a) => a === '--fix' || a.startsWith('--fix-')) ? 'eslint --fix 会修改文件' : null),
+  prettier: (args) => {
+    if (hasOption(args, ['--write', '-w'])) return 'prettier --write 会修改文件';
+    return args.includes('--check') || args.includes('-c') ? null : '只允许 prettier --check';
+  },
+};
+
+// 包装命令：真正执行的是其后的命令，对其递归判定
+const WRAPPER_COMMANDS: Record<string, (words: ShellWord[]) => ShellWord[] | string> = {
+  env: (words) => {
+    let i = 0;
+    while (i < words.length) {
+      const w = words[i].value;
+      if (w === '-i' || w === '-0' || w === '--ignore-environment' || w === '--null') i++;
+      else if (w === '-u' || w === '--unset') i += 2;
+      else if (w === '--') { i++; break; }
+      else if (/^[A-Za-z_][A-Za-z0-9_]*=/.test(w)) {
+        const reason = checkAssignment(w);
+        if (reason) return reason;
+        i++;
+      } else if (w.startsWith('-')) return `env 未知选项 ${w}`;
+      else break;
+    }
+    return words.slice(i);
+  },
+  xargs: (words) => {
+    const withValue = new Set(['-n', '-I', '-L', '-P', '-d', '-E', '-s', '-a', '--max-args', '--max-procs', '--delimiter', '--arg-file']);
+    let i = 0;
+    while (i < words.length && words[i].value.startsWith('-')) {
+      i += withValue.has(words[i].value) ? 2 : 1;
+    }
+    // 无命令时 xargs 默认执行 echo，剩余为空即视为安全
+    if (i >= words.length) return [];
+    // 输入（stdin 或 -a 文件）会追加为参数，无法静态判定，只允许任意参数都安全的只读命令
+    const inner = words[i];
+    if (inner.dynamic || !READ_ONLY_COMMANDS.includes(inner.value)) return `xargs 会把输入追加为 ${inner.value} 的参数，无法静态判定`;
+    return words.slice(i);
+  },
+  timeout: (words) => {
+    let i = 0;
+    while (i < words.length && words[i].value.startsWith('-')) {
+      i += ['-s', '-k', '--signal', '--kill-after'].includes(words[i].value) ? 2 : 1;
+    }
+    return words.slice(i + 1);   // 跳过时长
+  },
+  time: (words) => (words[0]?.value === '-p' ? words.slice(1) : words),
+  nice: (words) => {
+    let i = 0;
+    while (i < words.length && words[i].value.startsWith('-')) {
+      i += words[i].value === '-n' ? 2 : 1;
+    }
+    return words.slice(i);
+  },
+};
+
+// 会劫持后续命令执行的环境变量
+const DANGEROUS_ASSIGNMENT = /^(PATH|LD_[A-Z_]*|DYLD_[A-Z_]*|BASH_ENV|ENV|IFS|PROMPT_COMMAND|PS4|NODE_OPTIONS|PYTHONSTARTUP|PYTHONPATH|GIT_[A-Z_]*|PAGER|EDITOR|VISUAL)=/;
+
+// 写入这些目标的重定向不会修改文件
+const HARMLESS_TARGETS = new Set(['/dev/null', '/dev/stdout', '/dev/stderr']);
 
 /**
  * 从 inputPreview 中提取 bash 命令字符串。
  * inputPreview 的结构未知，尝试多种常见字段名。
  */
-function extractCommand(inputPreview: unknown): string | null {
+export function extractCommand(inputPreview: unknown): string | null {
   if (!inputPreview) return null;
   if (typeof inputPreview === 'string') return inputPreview.trim();
   if (typeof inputPreview === 'object') {
@@ -132,28 +200,471 @@ function extractCommand(inputPreview: unknown): string | null {
   return null;
 }
 
+/**
+ * 解析并逐个判定命令中的每个简单命令。
+ */
+export function analyzeCommand(command: string): CommandVerdict {
+  let tree: ShellNode;
+  try {
+    tree = parseShell(command);
+  } catch (err) {
+    if (!(err instanceof ShellParseError)) throw err;
+    return { safe: false, reason: `无法解析命令: ${err.message}`, commands: [] };
+  }
+
+  const commands: CommandCheck[] = [];
+  checkNode(tree, commands);
+  const unsafe = commands.find((c) => !c.safe);
+  return {
+    safe: !unsafe,
+    reason: unsafe ? `${unsafe.command}: ${unsafe.reason}` : '所有命令均为只读操作',
+    commands,
+  };
+}
+
+/**
+ * 对工具调用的 inputPreview 做判定；提取不到命令时返回 null。
+ */
+export function analyzeCommandInput(inputPreview: unknown): CommandVerdict | null {
+  const command = extractCommand(inputPreview);
+  return command ? analyzeCommand(command) : null;
+}
+
 /**
  * 判断命令是否安全（可自动放行）。
  * 返回 true = 安全，自动 allow；返回 false = 需要人工审批。
  */
 export function isSafeCommand(inputPreview: unknown): boolean {
-  const command = extractCommand(inputPreview);
-  if (!command) return false;
+  return analyzeCommandInput(inputPreview)?.safe ?? false;
+}
+
+// ---------------------------------------------------------------------------
+
+function checkNode(node: ShellNode, out: CommandCheck[]): void {
+  switch (node.type) {
+    case 'list':
+      for (const item of node.items) checkNode(item.node, out);
+      return;
+    case 'pipeline':
+      for (const cmd of node.commands) checkNode(cmd, out);
+      return;
+    case 'subshell': {
+      checkNode(node.body, out);
+      const reason = checkRedirects(node.redirects);
+      if (reason) out.push({ command: '( … )', safe: false, reason });
+      return;
+    }
+    case 'command':
+      out.push(checkCommand(node));
+      for (const word of [...node.assignments, ...node.words, ...node.redirects.map((r) => r.target)]) {
+        for (const sub of word.substitutions) checkNode(sub, out);
+      }
+  }
+}
+
+function checkCommand(cmd: ShellCommand): CommandCheck {
+  const text = commandToString(cmd);
+  const reason = cmd.assignments.map((w) => checkAssignment(w.value)).find(Boolean)
+    ?? checkRedirects(cmd.redirects)
+    ?? checkWords(cmd.words);
+  return { command: text, safe: !reason, reason: reason ?? '只读命令' };
+}
 
-  // 先检查危险模式
-  for (const pattern of DANGEROUS_PATTERNS) {
-    if (pattern.test(command)) return false;
+function checkWords(words: ShellWord[]): string | null {
+  if (words.length === 0) return null;   // 仅变量赋值或重定向
+  const [name, ...rest] = words;
+  if (name.dynamic) return '命令名包含变量或子命令，无法静态判定';
+
+  const wrapper = WRAPPER_COMMANDS[name.value];
+  if (wrapper) {
+    const inner = wrapper(rest);
+    return typeof inner === 'string' ? inner : checkWords(inner);
   }
 
-  // 提取第一个命令词（处理前导空格、env vars 等）
-  const normalized = command.replace(/^\s*(env\s+\S+=\S+\s+)*/, '').trim();
+  const rule = COMMAND_RULES[name.value];
+  if (!rule) return `${name.value} 不在安全命令列表中`;
+  // 有参数规则的命令，参数值必须可静态确定
+  if (rule !== allow && rest.some((w) => w.dynamic)) return '参数包含变量或子命令，无法静态判定';
+  return rule(rest.map((w) => w.value));
+}
+
+function checkAssignment(assignment: string): string | null {
+  return DANGEROUS_ASSIGNMENT.test(assignment) ? `设置 ${assignment.split('=')[0]} 会影响后续命令的执行` : null;
+}
 
-  // 检查是否匹配安全命令前缀
-  for (const prefix of SAFE_COMMAND_PREFIXES) {
-    if (normalized === prefix || normalized.startsWith(prefix + ' ') || normalized.startsWith(prefix + '\t')) {
-      return true;
+function checkRedirects(redirects: ShellRedirect[]): string | null {
+  for (const r of redirects) {
+    if (r.op === '<' || r.op === '<<<' || r.op === '<&') continue;
+    // fd 复制，如 2>&1、>&2
+    if (r.op === '>&' && /^(\d+|-)$/.test(r.target.value) && !r.target.dynamic) continue;
+    if (!r.target.dynamic && HARMLESS_TARGETS.has(r.target.value)) continue;
+    return `重定向 ${r.op} ${r.target.value} 会写入文件`;
+  }
+  return null;
+}
+
+function hasOption(args: string[], options: string[]): boolean {
+  return args.some((a) => options.includes(a) || options.some((o) => o.startsWith('--') && a.startsWith(`${o}=`)));
+}
+
+function positionals(args: string[]): string[] {
+  return args.filter((a) => !a.startsWith('-'));
+}
+
+function versionOnly(args: string[]): string | null {
+  return args.length === 1 && ['--version', '-v', '-V', '-version'].includes(args[0]) ? null : '只允许查看版本';
+}
+
+function checkSed(args: string[]): string | null {
+  const scripts: string[] = [];
+  let explicitScript = false;
+  const files: string[] = [];
+  for (let i = 0; i < args.length; i++) {
+    const a = args[i];
+    if (a.startsWith('--in-place') || /^-[a-zA-Z]*i/.test(a)) return 'sed -i 会原地修改文件';
+    if (a === '-e' || a === '--expression') { scripts.push(args[++i] ?? ''); explicitScript = true; }
+    else if (a.startsWith('--expression=')) { scripts.push(a.slice('--expression='.length)); explicitScript = true; }
+    else if (a === '-f' || a === '--file' || a.startsWith('--file=')) return 'sed -f 的脚本内容无法判定';
+    else if (!a.startsWith('-')) files.push(a);
+  }
+  if (!explicitScript && files.length > 0) scripts.push(files[0]);
+  for (const script of scripts) {
+    // w/W 写文件、e 执行命令，以及 s///w、s///e 标志
+    if (/(^|[;{}\n\/\d$,!])\s*[wWe](\s|$)/.test(script) || /s(.).*?\1.*?\1[gpIiMm\d]*[we]/.test(script)) {
+      return 'sed 脚本包含 w/e 命令，会写文件或执行命令';
+    }
+  }
+  return null;
+}
+
+function checkAwk(args: string[]): string | null {
+  const withValue = new Set(['-F', '-v']);
+  let program: string | undefined;
+  for (let i = 0; i < args.length; i++) {
+    const a = args[i];
+    if (a === '-f' || a.startsWith('--file')) return 'awk -f 的脚本内容无法判定';
+    if (withValue.has(a)) { i++; continue; }
+    if (a.startsWith('-')) continue;
+    program = a;
+    break;
+  }
+  if (program === undefined) return null;
+  if (/\bsystem\s*\(/.test(program)) return 'awk 脚本调用 system()';
+  if (/(^|[^|])\|(?!\|)/.test(program)) return 'awk 脚本通过管道执行命令';
+  if (/\bprintf?\b[^;}]*>/.test(program)) return 'awk 脚本重定向输出到文件';
+  return null;
+}
+
+interface OptionSpec {
+  flags: string[];             // options without a value
+  withValue: string[];         // options taking a value
+  optionalValue?: string[];    // value only attached (-uno) or after = (--color=always)
+}
+
+interface ParsedOptions {
+  options: Array<{ name: string; value?: string }>;
+  positionals: string[];
+}
+
+/**
+ * 按白名单解析选项：不在列表中的选项（包括长选项的缩写）一律视为不安全。
+ * 短选项可以合并（-sSL），最后一个可以带值（-XGET、-sX GET）；长选项以及
+ * go -count=1 这类整体列出的选项，值可以用 = 连接。
+ */
+function parseOptions(command: string, args: string[], spec: OptionSpec): ParsedOptions | string {
+  const flags = new Set(spec.flags);
+  const withValue = new Set(spec.withValue);
+  const optionalValue = new Set(spec.optionalValue);
+  const listed = (name: string) => flags.has(name) || withValue.has(name) || optionalValue.has(name);
+  const parsed: ParsedOptions = { options: [], positionals: [] };
+  for (let i = 0; i < args.length; i++) {
+    const a = args[i];
+    if (a === '--') {
+      parsed.positionals.push(...args.slice(i + 1));
+      break;
+    }
+    if (!a.startsWith('-') || a === '-') {
+      parsed.positionals.push(a);
+      continue;
+    }
+    // 长选项，以及 wget -nv、go -run 这类整体才有意义的选项
+    const eq = a.indexOf('=');
+    const whole = eq > 0 ? a.slice(0, eq) : a;
+    if (a.startsWith('--') || listed(whole)) {
+      const inline = eq > 0 ? a.slice(eq + 1) : undefined;
+      if (flags.has(whole) && inline === undefined) parsed.options.push({ name: whole });
+      else if (withValue.has(whole)) parsed.options.push({ name: whole, value: inline ?? args[++i] });
+      else if (optionalValue.has(whole)) parsed.options.push({ name: whole, value: inline });
+      else return `${command} ${whole} 不在安全选项列表中`;
+      continue;
+    }
+    for (let j = 1; j < a.length; j++) {
+      const name = `-${a[j]}`;
+      if (flags.has(name)) {
+        parsed.options.push({ name });
+        continue;
+      }
+      if (optionalValue.has(name)) {
+        parsed.options.push({ name, value: j + 1 < a.length ? a.slice(j + 1) : undefined });
+        break;
+      }
+      if (!withValue.has(name)) return `${command} ${name} 不在安全选项列表中`;
+      parsed.options.push({ name, value: j + 1 < a.length ? a.slice(j + 1) : args[++i] });
+      break;
+    }
+  }
+  return parsed;
+}
+
+/** 只需要选项都在白名单内的命令 */
+function optionsOnly(command: string, args: string[], spec: OptionSpec): string | null {
+  const parsed = parseOptions(command, args, spec);
+  return typeof parsed === 'string' ? parsed : null;
+}
+
+const CURL_OPTIONS: OptionSpec = {
+  flags: [
+    '-s', '--silent', '-S', '--show-error', '-L', '--location', '-I', '--head', '-i', '--include',
+    '-v', '--verbose', '-f', '--fail', '--fail-with-body', '-k', '--insecure', '-G', '--get',
+    '-N', '--no-buffer', '-4', '--ipv4', '-6', '--ipv6', '-#', '--progress-bar', '--no-progress-meter',
+    '--compressed', '--http1.0', '--http1.1', '--http2', '--path-as-is',
+  ],
+  withValue: [
+    '-H', '--header', '-A', '--user-agent', '-e', '--referer', '-u', '--user', '-b', '--cookie',
+    '-m', '--max-time', '--connect-timeout', '--retry', '--retry-delay', '--max-redirs',
+    '-X', '--request', '-w', '--write-out', '-x', '--proxy', '-r', '--range', '--url', '--resolve', '--cacert',
+  ],
+};
+
+function checkCurl(args: string[]): string | null {
+  const parsed = parseOptions('curl', args, CURL_OPTIONS);
+  if (typeof parsed === 'string') return parsed;
+  for (const { name, value = '' } of parsed.options) {
+    if ((name === '-X' || name === '--request') && !['GET', 'HEAD'].includes(value.toUpperCase())) {
+      return `curl ${value} 请求可能修改远端数据`;
+    }
+    // %output{file} 会把后续输出写入文件；@file 的格式内容无法判定
+    if ((name === '-w' || name === '--write-out') && (value.includes('%output{') || value.startsWith('@'))) {
+      return 'curl --write-out 可能写入文件';
+    }
+  }
+  return null;
+}
+
+const WGET_OPTIONS: OptionSpec = {
+  flags: ['-q', '--quiet', '-v', '--verbose', '-nv', '--no-verbose', '-S', '--server-response', '--spider', '--no-check-certificate'],
+  withValue: ['-O', '--output-document', '-T', '--timeout', '-t', '--tries', '-U', '--user-agent', '--header', '--max-redirect'],
+};
+
+function checkWget(args: string[]): string | null {
+  const parsed = parseOptions('wget', args, WGET_OPTIONS);
+  if (typeof parsed === 'string') return parsed;
+  const output = parsed.options.find((o) => o.name === '-O' || o.name === '--output-document');
+  if (output?.value === '-' || (!output && parsed.options.some((o) => o.name === '--spider'))) return null;
+  return 'wget 会下载到文件（只允许 --spider 或 -O -）';
+}
+
+const SORT_OPTIONS: OptionSpec = {
+  flags: [
+    '-b', '--ignore-leading-blanks', '-d', '--dictionary-order', '-f', '--ignore-case', '-g', '--general-numeric-sort',
+    '-i', '--ignore-nonprinting', '-M', '--month-sort', '-h', '--human-numeric-sort', '-n', '--numeric-sort',
+    '-R', '--random-sort', '-r', '--reverse', '-V', '--version-sort', '-c', '-C', '--check', '-m', '--merge',
+    '-s', '--stable', '-u', '--unique', '-z', '--zero-terminated',
+  ],
+  withValue: ['-k', '--key', '-t', '--field-separator', '-S', '--buffer-size', '--parallel'],
+};
+
+// 不含 -o（输出到文件）和 -R（配合 -H 在每个目录写 00Tree.html）
+const TREE_OPTIONS: OptionSpec = {
+  flags: [
+    '-a', '-d', '-l', '-f', '-x', '-i', '-q', '-N', '-Q', '-p', '-u', '-g', '-s', '-h', '-D', '-F', '-v', '-t', '-c',
+    '-U', '-r', '-n', '-C', '-J', '-X', '--si', '--du', '--noreport', '--dirsfirst', '--gitignore', '--prune',
+    '--matchdirs', '--ignore-case', '--inodes', '--device', '--nolinks',
+  ],
+  withValue: ['-L', '-P', '-I', '-H', '-T', '--filelimit', '--charset', '--timefmt', '--sort'],
+};
+
+// 不含 -o / -O / --log-file（把输入写入日志文件）和 -k / --lesskey-file
+const LESS_OPTIONS: OptionSpec = {
+  flags: [
+    '-N', '--LINE-NUMBERS', '-n', '--line-numbers', '-S', '--chop-long-lines', '-R', '--RAW-CONTROL-CHARS',
+    '-r', '--raw-control-chars', '-i', '--ignore-case', '-I', '--IGNORE-CASE', '-F', '--quit-if-one-screen',
+    '-X', '--no-init', '-M', '--LONG-PROMPT', '-m', '--long-prompt', '-s', '--squeeze-blank-lines',
+    '-q', '--quiet', '-Q', '--QUIET', '-e', '--quit-at-eof', '-E', '--QUIT-AT-EOF', '-f', '--force',
+    '-g', '--hilite-search', '-G', '--HILITE-SEARCH', '-w', '--hilite-unread', '-W', '--HILITE-UNREAD',
+    '-J', '--status-column', '-K', '--quit-on-intr', '-L', '--no-lessopen', '-c', '--clear-screen',
+    '-a', '--search-skip-screen', '-B', '--auto-buffers', '--mouse', '--use-color',
+  ],
+  withValue: ['-x', '--tabs', '-y', '--max-forw-scroll', '-z', '--window', '-b', '--buffers', '-h', '--max-back-scroll',
+    '-j', '--jump-target', '-p', '--pattern', '-P', '--prompt', '-#', '--shift'],
+};
+
+// go test / vet：不含 -exec、-toolexec、-vettool、-ldflags 等可执行外部程序的选项，
+// 以及 -o、-coverprofile、-mod=mod 等会写文件的选项
+const GO_BUILD_FLAGS = ['-v', '-x', '-n', '-race', '-msan', '-asan', '-cover', '-trimpath', '-a', '-json'];
+const GO_BUILD_VALUES = ['-tags', '-p', '-covermode', '-coverpkg', '-C'];
+const GO_TEST_OPTIONS: OptionSpec = {
+  flags: [...GO_BUILD_FLAGS, '-short', '-failfast', '-benchmem'],
+  withValue: [...GO_BUILD_VALUES, '-run', '-skip', '-bench', '-benchtime', '-count', '-cpu', '-timeout', '-parallel', '-shuffle', '-list', '-vet'],
+};
+const GO_VET_OPTIONS: OptionSpec = { flags: GO_BUILD_FLAGS, withValue: GO_BUILD_VALUES };
+
+function checkGo(args: string[]): string | null {
+  const [sub, ...rest] = args;
+  if (sub === 'version') return null;
+  if (sub === 'test') return optionsOnly('go test', rest, GO_TEST_OPTIONS);
+  if (sub === 'vet') return optionsOnly('go vet', rest, GO_VET_OPTIONS);
+  return `go ${sub ?? ''} 不在只读子命令列表`.trim();
+}
+
+// git 只读子命令的选项白名单；不含 --output（写文件）、--ext-diff / --textconv（执行配置中的外部命令）
+const GIT_REVISION_OPTIONS: OptionSpec = {
+  flags: [
+    '-p', '--patch', '-s', '--no-patch', '--shortstat', '--numstat', '--name-only', '--name-status', '--summary',
+    '--raw', '--cached', '--staged', '-w', '--ignore-all-space', '-b', '--ignore-space-change', '--ignore-blank-lines',
+    '--no-color', '--no-ext-diff', '--no-textconv', '--minimal', '--patience', '--histogram', '-R', '--no-renames',
+    '--full-index', '--exit-code', '--quiet', '--check', '--oneline', '--graph', '--all', '--branches', '--tags',
+    '--remotes', '--no-decorate', '--reverse', '--first-parent', '--no-merges', '--merges', '--follow',
+    '--abbrev-commit', '--no-abbrev-commit', '--date-order', '--topo-order', '--left-right', '--cherry-pick',
+    '--boundary', '--full-history', '--source', '--relative-date', '-i', '--regexp-ignore-case', '--all-match',
+    '--invert-grep', '-E', '--extended-regexp', '-F', '--fixed-strings', '--count', '--objects', '--left-only',
+    '--right-only', '--parents', '--children', '--timestamp', '-0', '-1', '-2', '-3', '-4', '-5', '-6', '-7', '-8', '-9',
+  ],
+  withValue: [
+    '-n', '--max-count', '--skip', '--since', '--after', '--until', '--before', '--author', '--committer', '--grep',
+    '-U', '--unified', '--diff-filter', '-S', '-G', '-L', '--date', '--max-parents', '--min-parents',
+  ],
+  optionalValue: [
+    '--stat', '--color', '--word-diff', '--pretty', '--format', '--abbrev', '--relative', '--decorate',
+    '--find-renames', '-M', '-C', '--dirstat',
+  ],
+};
+
+const GIT_READ_ONLY: Record<string, OptionSpec> = {
+  log: GIT_REVISION_OPTIONS,
+  diff: GIT_REVISION_OPTIONS,
+  show: GIT_REVISION_OPTIONS,
+  whatchanged: GIT_REVISION_OPTIONS,
+  'rev-list': GIT_REVISION_OPTIONS,
+  status: {
+    flags: ['-s', '--short', '-b', '--branch', '--long', '-v', '--verbose', '--ignored', '--no-renames', '--show-stash',
+      '--ahead-behind', '--no-ahead-behind', '-z'],
+    withValue: [],
+    optionalValue: ['--porcelain', '-u', '--untracked-files', '--ignore-submodules'],
+  },
+  blame: {
+    flags: ['-l', '-t', '-s', '-e', '-w', '-p', '--porcelain', '--line-porcelain', '-f', '-n', '-c', '--show-stats',
+      '--root', '--show-name', '--show-number', '--show-email'],
+    withValue: ['-L', '--since', '--date'],
+    optionalValue: ['-M', '-C', '--abbrev'],
+  },
+  shortlog: {
+    flags: ['-n', '--numbered', '-s', '--summary', '-e', '--email', '--all', '--no-merges'],
+    withValue: ['--since', '--until', '--author'],
+    optionalValue: ['--group', '--format'],
+  },
+  describe: {
+    flags: ['--tags', '--all', '--long', '--always', '--exact-match', '--first-parent', '--contains'],
+    withValue: ['--match', '--exclude', '--candidates'],
+    optionalValue: ['--abbrev', '--dirty', '--broken'],
+  },
+  'rev-parse': {
+    flags: ['--show-toplevel', '--show-prefix', '--show-cdup', '--git-dir', '--git-common-dir', '--absolute-git-dir',
+      '--is-inside-work-tree', '--is-inside-git-dir', '--is-bare-repository', '--verify', '-q', '--quiet',
+      '--symbolic', '--symbolic-full-name', '--all', '--branches', '--tags'],
+    withValue: ['--default'],
+    optionalValue: ['--short', '--abbrev-ref'],
+  },
+  'ls-files': {
+    flags: ['-c', '--cached', '-d', '--deleted', '-m', '--modified', '-o', '--others', '-i', '--ignored', '-s', '--stage',
+      '-u', '--unmerged', '-k', '--killed', '-z', '-t', '-v', '--directory', '--no-empty-directory',
+      '--exclude-standard', '--full-name', '--error-unmatch', '--eol', '--recurse-submodules', '--deduplicate'],
+    withValue: ['-x', '--exclude', '-X', '--exclude-from', '--exclude-per-directory', '--with-tree'],
+    optionalValue: ['--abbrev', '--format'],
+  },
+  'ls-tree': {
+    flags: ['-d', '-r', '-t', '-l', '--long', '-z', '--name-only', '--name-status', '--object-only', '--full-name', '--full-tree'],
+    withValue: [],
+    optionalValue: ['--abbrev', '--format'],
+  },
+  'cat-file': {
+    flags: ['-t', '-s', '-e', '-p', '--batch-all-objects', '--follow-symlinks', '--unordered', '--buffer', '-Z'],
+    withValue: [],
+    optionalValue: ['--batch', '--batch-check'],
+  },
+  'show-ref': {
+    flags: ['--head', '--tags', '--heads', '--branches', '-d', '--dereference', '-s', '--hash', '--verify', '-q', '--quiet'],
+    withValue: [],
+    optionalValue: ['--abbrev'],
+  },
+  // 不含 -O / --open-files-in-pager：以任意命令作为分页器打开匹配的文件
+  grep: {
+    flags: ['--cached', '--no-index', '--untracked', '--exclude-standard', '--no-exclude-standard', '--recurse-submodules',
+      '-a', '--text', '-i', '--ignore-case', '-I', '-w', '--word-regexp', '-v', '--invert-match', '-h', '-H',
+      '--full-name', '-E', '--extended-regexp', '-G', '--basic-regexp', '-P', '--perl-regexp', '-F', '--fixed-strings',
+      '-n', '--line-number', '--column', '-l', '--files-with-matches', '--name-only', '-L', '--files-without-match',
+      '-z', '--null', '-o', '--only-matching', '-c', '--count', '--no-color', '--break', '--heading',
+      '-p', '--show-function', '-W', '--function-context', '-q', '--quiet', '--all-match', '--and', '--or', '--not',
+      '-r', '--recursive', '--no-recursive'],
+    withValue: ['-e', '-f', '-A', '-B', '-C', '--after-context', '--before-context', '--context', '--max-depth',
+      '-m', '--max-count', '--threads'],
+    optionalValue: ['--color'],
+  },
+};
+
+const GIT_GLOBAL_FLAGS = ['--no-pager', '-P', '--no-replace-objects', '--literal-pathspecs', '--no-optional-locks', '--version'];
+
+function checkGit(args: string[]): string | null {
+  let i = 0;
+  // 全局选项：-c、--exec-path、--config-env 等可以让 git 执行任意命令，只放行白名单
+  while (i < args.length && args[i].startsWith('-')) {
+    if (args[i] === '-C') i += 2;
+    else if (GIT_GLOBAL_FLAGS.includes(args[i])) i++;
+    else return `git ${args[i]} 不在安全选项列表中`;
+  }
+  const sub = args[i];
+  const rest = args.slice(i + 1);
+  if (!sub) return args.includes('--version') ? null : 'git 缺少子命令';
+  const spec = GIT_READ_ONLY[sub];
+  if (spec) return optionsOnly(`git ${sub}`, rest, spec);
+
+  const subPositionals = positionals(rest);
+  const listing = rest.includes('-l') || rest.includes('--list');
+  switch (sub) {
+    case 'branch': {
+      const bad = rest.find((a) => /^(-[dDmMcCfu]|--(delete|move|copy|force|set-upstream-to|unset-upstream|edit-description))/.test(a));
+      if (bad) return `git branch ${bad} 会修改分支`;
+      return subPositionals.length > 0 && !listing ? 'git branch <name> 会创建分支' : null;
+    }
+    case 'tag': {
+      const bad = rest.find((a) => /^(-[dasfmF]|--(delete|annotate|sign|force|message|file))/.test(a));
+      if (bad) return `git tag ${bad} 会修改标签`;
+      return subPositionals.length > 0 && !listing ? 'git tag <name> 会创建标签' : null;
     }
+    case 'remote':
+      return rest.length === 0 || rest.every((a) => a === '-v' || a === '--verbose') || ['show', 'get-url'].includes(subPositionals[0]) ? null : 'git remote 只允许查看';
+    case 'stash':
+      return ['list', 'show'].includes(rest[0]) ? null : '只允许 git stash list / show';
+    case 'reflog':
+      return rest.length === 0 || rest[0] === 'show' || rest[0].startsWith('-') ? null : `git reflog ${rest[0]} 会修改引用日志`;
+    case 'config':
+      return rest.some((a) => ['--get', '--get-all', '--get-regexp', '--list', '-l'].includes(a)) ? null : '只允许 git config --get / --list';
+    default:
+      return `git ${sub} 不在只读子命令列表`;
   }
+}
+
+const PACKAGE_READ_ONLY = new Set(['list', 'ls', 'view', 'info', 'show', 'outdated', 'why', 'explain', '--version', '-v', 'test', 't']);
+const PACKAGE_SCRIPTS = new Set(['lint', 'typecheck', 'check', 'build', 'test', 'dev']);
+
+function checkPackageManager(args: string[]): string | null {
+  const [sub, script] = args;
+  if (sub === undefined) return '缺少子命令';
+  if (PACKAGE_READ_ONLY.has(sub)) return null;
+  if (sub === 'run' && PACKAGE_SCRIPTS.has(script)) return null;
+  return `${sub}${sub === 'run' ? ` ${script ?? ''}` : ''} 不在只读子命令或常用脚本列表`;
+}
 
-  return false;
+function checkPip(args: string[]): string | null {
+  return ['list', 'show', 'freeze', '--version'].includes(args[0]) ? null : `pip ${args[0] ?? ''} 会修改环境`.trim();
 }
@@ -0,0 +1,240 @@
+import type { Agent } from '@shareai-lab/kode-sdk';
+import type { SessionStore, Session } from '../memory/session-store.js';
+import type { SSEManager } from '../server/sse.js';
+import { ChatLock } from './chat-lock.js';
+import { InjectionQueue, type SideExchange } from './injection-queue.js';
+import { DEFAULT_USER_ID } from '../memory/user-store.js';
+import { generateId } from '../utils/id.js';
+import { logger } from '../utils/logger.js';
+
+/** Used when a request or background task of the default user carries no sessionId */
+export const DEFAULT_SESSION_ID = 'default';
+
+const AGENT_ID_PREFIX = 'orchestrator-';
+const EVICT_INTERVAL_MS = 60 * 1000;
+
+export interface OrchestratorFactory {
+  create(agentId: string): Promise<Agent>;
+  resume(agentId: string): Promise<Agent>;
+}
+
+/** In-memory state of a loaded session; dropped when the session goes idle */
+export interface SessionRuntime {
+  session: Session;
+  agent: Agent;
+  chatLock: ChatLock;
+  injectionQueue: InjectionQueue;
+  lastUsedAt: number;
+}
+
+export class SessionNotFoundError extends Error {
+  constructor(sessionId: string) {
+    super(`Session not found: ${sessionId}`);
+    this.name = 'SessionNotFoundError';
+  }
+}
+
+export class SessionArchivedError extends Error {
+  constructor(sessionId: string) {
+    super(`Session is archived: ${sessionId}`);
+    this.name = 'SessionArchivedError';
+  }
+}
+
+/** Session that dispatched a tool call */
+export interface SessionOrigin {
+  sessionId: string;
+  userId: string;
+}
+
+/**
+ * The orchestrator agent id is derived from the session id, so a tool call
+ * (which only knows its agentId) can be attributed to a session.
+ */
+export function sessionIdFromAgentId(agentId: string | undefined): string | undefined {
+  return agentId?.startsWith(AGENT_ID_PREFIX) ? agentId.slice(AGENT_ID_PREFIX.length) : undefined;
+}
+
+/**
+ * Each user gets an auto-created default session.
+ */
+export function defaultSessionId(userId: string): string {
+  return userId === DEFAULT_USER_ID ? DEFAULT_SESSION_ID : `${DEFAULT_SESSION_ID}-${userId}`;
+}
+
+/**
+ * Owns one orchestrator Agent per conversation session.
+ * Agents are resumed from the SDK store on first use and evicted after idleTimeoutMs.
+ * Sessions belong to a user; another user's session is reported as not found.
+ */
+export class SessionManager {
+  private runtimes = new Map<string, SessionRuntime>();
+  private loading = new Map<string, Promise<SessionRuntime>>();
+  private onAgentReady?: (agent: Agent, session: Session) => void;
+  private evictTimer?: ReturnType<typeof setInterval>;
+
+  constructor(
+    private store: SessionStore,
+    private factory: OrchestratorFactory,
+    private sseManager: SSEManager,
+    private idleTimeoutMs: number,
+  ) {}
+
+  /**
+   * Called for every orchestrator agent after it is created or resumed (event wiring).
+   */
+  setAgentReadyListener(listener: (agent: Agent, session: Session) => void): void {
+    this.onAgentReady = listener;
+  }
+
+  async create(userId: string, title = ''): Promise<Session> {
+    return (await this.createWithId(userId, generateId(), title)).session;
+  }
+
+  async get(userId: string, sessionId: string): Promise<Session | undefined> {
+    const session = this.runtimes.get(sessionId)?.session ?? await this.store.get(sessionId);
+    return session?.userId === userId ? session : undefined;
+  }
+
+  async list(userId: string, includeArchived = false): Promise<Session[]> {
+    return this.store.list(userId, includeArchived);
+  }
+
+  async rename(userId: string, sessionId: string, title: string): Promise<Session | undefined> {
+    if (!await this.get(userId, sessionId)) return undefined;
+    const session = await this.store.update(sessionId, { title });
+    const runtime = this.runtimes.get(sessionId);
+    if (session && runtime) runtime.session = session;
+    return session;
+  }
+
+  /**
+   * Archived sessions stay readable (history) but no longer accept messages.
+   */
+  async setArchived(userId: string, sessionId: string, archived: boolean): Promise<Session | undefined> {
+    if (!await this.get(userId, sessionId)) return undefined;
+    const session = await this.store.update(sessionId, { archived });
+    if (session?.archived) this.evict(sessionId);
+    else if (session && this.runtimes.has(sessionId)) this.runtimes.get(sessionId)!.session = session;
+    return session;
+  }
+
+  /**
+   * Removes the session row. The orchestrator's SDK state is left in the store.
+   */
+  async delete(userId: string, sessionId: string): Promise<boolean> {
+    if (!await this.get(userId, sessionId)) return false;
+    this.evict(sessionId);
+    return this.store.delete(sessionId);
+  }
+
+  /**
+   * Load (or create, for the user's default session) the runtime for a session.
+   */
+  async getRuntime(userId: string, sessionId: string = defaultSessionId(userId)): Promise<SessionRuntime> {
+    const loaded = this.runtimes.get(sessionId);
+    if (loaded) {
+      if (loaded.session.userId !== userId) throw new SessionNotFoundError(sessionId);
+      loaded.lastUsedAt = Date.now();
+      return loaded;
+    }
+    // Concurrent first requests share one resume
+    let pending = this.loading.get(sessionId);
+    if (!pending) {
+      pending = this.load(userId, sessionId).finally(() => this.loading.delete(sessionId));
+      this.loading.set(sessionId, pending);
+    }
+    const runtime = await pending;
+    if (runtime.session.userId !== userId) throw new SessionNotFoundError(sessionId);
+    return runtime;
+  }
+
+  /**
+   * Resolve the session (and owner) of a loaded orchestrator agent.
+   */
+  originOf(agentId: string | undefined): SessionOrigin | undefined {
+    const sessionId = sessionIdFromAgentId(agentId);
+    const session = sessionId ? this.runtimes.get(sessionId)?.session : undefined;
+    return session ? { sessionId: session.id, userId: session.userId } : undefined;
+  }
+
+  /**
+   * Record activity on a session (chat turn or injected result).
+   */
+  /**
+   * Fast-path exchanges of a loaded session that the orchestrator has not seen yet.
+   */
+  pendingSideExchanges(sessionId: string): SideExchange[] {
+    return this.runtimes.get(sessionId)?.injectionQueue.pendingSideExchanges ?? [];
+  }
+
+  touch(runtime: SessionRuntime): void {
+    runtime.lastUsedAt = Date.now();
+    runtime.session.lastActiveAt = runtime.lastUsedAt;
+    this.store.touch(runtime.session.id, runtime.lastUsedAt)
+      .catch((err) => logger.warn('session', 'Failed to update session activity', { sessionId: runtime.session.id, error: String(err) }));
+  }
+
+  startEviction(): void {
+    this.evictTimer = setInterval(() => this.evictIdle(), EVICT_INTERVAL_MS);
+    this.evictTimer.unref();
+  }
+
+  private async load(userId: string, sessionId: string): Promise<SessionRuntime> {
+    const session = await this.store.get(sessionId);
+    if (!session) {
+      if (sessionId !== defaultSessionId(userId)) throw new SessionNotFoundError(sessionId);
+      return this.createWithId(userId, sessionId, '默认会话');
+    }
+    if (session.archived) throw new SessionArchivedError(sessionId);
+    const agent = await this.factory.resume(session.agentId);
+    logger.info('session', 'Session loaded', { sessionId, agentId: session.agentId });
+    return this.attach(session, agent);
+  }
+
+  private async createWithId(userId: string, sessionId: string, title: string): Promise<SessionRuntime> {
+    const now = Date.now();
+    const session: Session = {
+      id: sessionId,
+      userId,
+      agentId: `${AGENT_ID_PREFIX}${sessionId}`,
+      title,
+      archived: false,
+      createdAt: now,
+      lastActiveAt: now,
+    };
+    const agent = await this.factory.create(session.agentId);
+    await this.store.create(session);
+    logger.info('session', 'Session created', { sessionId, userId, agentId: session.agentId });
+    return this.attach(session, agent);
+  }
+
+  private attach(session: Session, agent: Agent): SessionRuntime {
+    const chatLock = new ChatLock();
+    const runtime: SessionRuntime = {
+      session,
+      agent,
+      chatLock,
+      injectionQueue: new InjectionQueue(agent, this.sseManager, chatLock, session.id, session.userId),
+      lastUsedAt: Date.now(),
+    };
+    this.runtimes.set(session.id, runtime);
+    this.onAgentReady?.(agent, session);
+    return runtime;
+  }
+
+  private evictIdle(): void {
+    const cutoff = Date.now() - this.idleTimeoutMs;
+    for (const [sessionId, runtime] of this.runtimes) {
+      if (runtime.lastUsedAt > cutoff) continue;
+      // Never drop an agent mid-turn or with injected results still pending
+      if (runtime.chatLock.isLocked || !runtime.injectionQueue.isIdle) continue;
+      this.evict(sessionId);
+      logger.info('session', 'Evicted idle session', { sessionId });
+    }
+  }
+
+  private evict(sessionId: string): void {
+    this.runtimes.delete(sessionId);
+  }
+}
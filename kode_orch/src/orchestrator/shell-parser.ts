@@ -0,0 +1,348 @@
+/**
+ * Minimal POSIX-style shell parser for command safety analysis.
+ * Understands quoting, escapes, pipelines, &&/||/;/& lists, ( ) subshells,
+ * redirects and $( ) / backtick / <( ) substitutions. Heredocs and control
+ * structures are not modelled: heredocs are rejected, and keywords such as
+ * `if` or `for` parse as plain command names.
+ */
+
+export type ShellNode = ShellList | ShellPipeline | ShellSubshell | ShellCommand;
+
+export interface ShellList {
+  type: 'list';
+  items: Array<{ node: ShellNode; separator?: string }>;   // separator that follows the item
+}
+
+export interface ShellPipeline {
+  type: 'pipeline';
+  commands: ShellNode[];
+}
+
+export interface ShellSubshell {
+  type: 'subshell';
+  body: ShellNode;
+  redirects: ShellRedirect[];
+}
+
+export interface ShellCommand {
+  type: 'command';
+  assignments: ShellWord[];       // leading NAME=value words
+  words: ShellWord[];             // command name followed by its arguments
+  redirects: ShellRedirect[];
+}
+
+export interface ShellWord {
+  value: string;                  // text with quotes removed; expansions kept verbatim
+  dynamic: boolean;               // contains $VAR / $( ) / backticks, so the runtime value is unknown
+  substitutions: ShellNode[];     // parsed $( ), backtick and <( ) bodies
+}
+
+export interface ShellRedirect {
+  op: string;                     // >, >>, >|, <, <>, >&, <&, &>, &>>, <<<
+  fd?: number;
+  target: ShellWord;
+}
+
+export class ShellParseError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ShellParseError';
+  }
+}
+
+type Token =
+  | { kind: 'word'; word: ShellWord }
+  | { kind: 'op'; value: string }
+  | { kind: 'redirect'; op: string; fd?: number };
+
+const LIST_OPS = new Set(['&&', '||', ';', '&', '\n']);
+const REDIRECT_OPS = ['&>>', '>>', '>|', '>&', '&>', '<<<', '<>', '<&', '>', '<'];
+
+export function parseShell(source: string): ShellNode {
+  const tokens = tokenize(source);
+  const parser = new Parser(tokens);
+  const node = parser.parseList();
+  if (!parser.done()) throw new ShellParseError(`意外的符号: ${parser.describeNext()}`);
+  return node;
+}
+
+export function commandToString(command: ShellCommand): string {
+  return [
+    ...command.assignments.map((w) => w.value),
+    ...command.words.map((w) => w.value),
+    ...command.redirects.map((r) => `${r.fd ?? ''}${r.op}${r.target.value}`),
+  ].join(' ');
+}
+
+// ---------------------------------------------------------------------------
+
+function tokenize(src: string): Token[] {
+  const tokens: Token[] = [];
+  let i = 0;
+
+  while (i < src.length) {
+    const ch = src[i];
+
+    if (ch === ' ' || ch === '\t') { i++; continue; }
+    if (ch === '\\' && src[i + 1] === '\n') { i += 2; continue; }
+    if (ch === '#') {
+      while (i < src.length && src[i] !== '\n') i++;
+      continue;
+    }
+    if (ch === '\n') { tokens.push({ kind: 'op', value: '\n' }); i++; continue; }
+
+    // Process substitution <( ) / >( ) is a word, not a redirect
+    if ((ch === '<' || ch === '>') && src[i + 1] === '(') {
+      const end = findClosing(src, i + 2, '(', ')');
+      tokens.push({ kind: 'word', word: { value: src.slice(i, end + 1), dynamic: true, substitutions: [parseShell(src.slice(i + 2, end))] } });
+      i = end + 1;
+      continue;
+    }
+
+    if (src.startsWith('<<', i) && !src.startsWith('<<<', i)) {
+      throw new ShellParseError('不支持 heredoc');
+    }
+
+    const redirect = REDIRECT_OPS.find((op) => src.startsWith(op, i));
+    if (redirect) {
+      tokens.push({ kind: 'redirect', op: redirect });
+      i += redirect.length;
+      continue;
+    }
+
+    const op = ['&&', '||', '|&', '|', ';', '&', '(', ')'].find((o) => src.startsWith(o, i));
+    if (op) {
+      tokens.push({ kind: 'op', value: op === '|&' ? '|' : op });
+      i += op.length;
+      continue;
+    }
+
+    const [word, next] = readWord(src, i);
+    i = next;
+    // "2>" / "2>>" / "2>&1": a bare number right before a redirect is its fd
+    const redirectAfter = REDIRECT_OPS.find((o) => src.startsWith(o, i));
+    if (redirectAfter && /^\d+$/.test(word.value) && !word.dynamic && src[i - 1] !== '"' && src[i - 1] !== "'") {
+      tokens.push({ kind: 'redirect', op: redirectAfter, fd: Number(word.value) });
+      i += redirectAfter.length;
+      continue;
+    }
+    tokens.push({ kind: 'word', word });
+  }
+  return tokens;
+}
+
+function isWordBreak(ch: string): boolean {
+  return ' \t\n;&|()<>'.includes(ch);
+}
+
+function readWord(src: string, start: number): [ShellWord, number] {
+  let value = '';
+  let dynamic = false;
+  const substitutions: ShellNode[] = [];
+  let i = start;
+
+  const readDollar = (): void => {
+    // i points at '$'
+    if (src.startsWith('$((', i)) {
+      const end = findClosing(src, i + 3, '(', ')');
+      if (src[end + 1] !== ')') throw new ShellParseError('算术展开未闭合');
+      value += src.slice(i, end + 2);
+      i = end + 2;
+    } else if (src[i + 1] === '(') {
+      const end = findClosing(src, i + 2, '(', ')');
+      substitutions.push(parseShell(src.slice(i + 2, end)));
+      value += src.slice(i, end + 1);
+      i = end + 1;
+    } else if (src[i + 1] === '{') {
+      const end = src.indexOf('}', i + 2);
+      if (end < 0) throw new ShellParseError('${ 未闭合');
+      value += src.slice(i, end + 1);
+      i = end + 1;
+    } else {
+      const m = /^\$(?:[A-Za-z_][A-Za-z0-9_]*|[0-9@*#?$!-])/.exec(src.slice(i));
+      if (!m) { value += '$'; i++; return; }
+      value += m[0];
+      i += m[0].length;
+    }
+    dynamic = true;
+  };
+
+  const readBacktick = (): void => {
+    let end = i + 1;
+    while (end < src.length && src[end] !== '`') {
+      if (src[end] === '\\') end++;
+      end++;
+    }
+    if (end >= src.length) throw new ShellParseError('反引号未闭合');
+    substitutions.push(parseShell(src.slice(i + 1, end)));
+    value += src.slice(i, end + 1);
+    i = end + 1;
+    dynamic = true;
+  };
+
+  while (i < src.length && !isWordBreak(src[i])) {
+    const ch = src[i];
+    if (ch === '\\') {
+      if (src[i + 1] === '\n') { i += 2; continue; }
+      value += src[i + 1] ?? '';
+      i += 2;
+    } else if (ch === "'") {
+      const end = src.indexOf("'", i + 1);
+      if (end < 0) throw new ShellParseError('单引号未闭合');
+      value += src.slice(i + 1, end);
+      i = end + 1;
+    } else if (ch === '"') {
+      i++;
+      while (i < src.length && src[i] !== '"') {
+        if (src[i] === '\\' && '$`"\\\n'.includes(src[i + 1] ?? '')) {
+          value += src[i + 1];
+          i += 2;
+        } else if (src[i] === '$') {
+          readDollar();
+        } else if (src[i] === '`') {
+          readBacktick();
+        } else {
+          value += src[i++];
+        }
+      }
+      if (i >= src.length) throw new ShellParseError('双引号未闭合');
+      i++;
+    } else if (ch === '$') {
+      readDollar();
+    } else if (ch === '`') {
+      readBacktick();
+    } else {
+      value += ch;
+      i++;
+    }
+  }
+  return [{ value, dynamic, substitutions }, i];
+}
+
+/**
+ * Index of the bracket closing the one opened just before `from`, skipping quoted text.
+ */
+function findClosing(src: string, from: number, open: string, close: string): number {
+  let depth = 1;
+  let i = from;
+  while (i < src.length) {
+    const ch = src[i];
+    if (ch === '\\') { i += 2; continue; }
+    if (ch === "'") {
+      const end = src.indexOf("'", i + 1);
+      if (end < 0) break;
+      i = end + 1;
+      continue;
+    }
+    if (ch === '"') {
+      i++;
+      while (i < src.length && src[i] !== '"') i += src[i] === '\\' ? 2 : 1;
+      i++;
+      continue;
+    }
+    if (ch === open) depth++;
+    else if (ch === close && --depth === 0) return i;
+    i++;
+  }
+  throw new ShellParseError(`缺少 ${close}`);
+}
+
+class Parser {
+  private pos = 0;
+
+  constructor(private tokens: Token[]) {}
+
+  done(): boolean {
+    return this.pos >= this.tokens.length;
+  }
+
+  describeNext(): string {
+    const t = this.tokens[this.pos];
+    if (!t) return '结尾';
+    return t.kind === 'word' ? t.word.value : t.kind === 'op' ? t.value : t.op;
+  }
+
+  parseList(): ShellNode {
+    const items: ShellList['items'] = [];
+    this.skipNewlines();
+    while (!this.done() && !this.isOp(')')) {
+      const node = this.parsePipeline();
+      const next = this.tokens[this.pos];
+      if (next?.kind === 'op' && LIST_OPS.has(next.value)) {
+        this.pos++;
+        items.push({ node, separator: next.value });
+        this.skipNewlines();
+      } else {
+        items.push({ node });
+        break;
+      }
+    }
+    if (items.length === 0) throw new ShellParseError('空命令');
+    const last = items[items.length - 1];
+    if (last.separator === '&&' || last.separator === '||') throw new ShellParseError(`${last.separator} 后缺少命令`);
+    return items.length === 1 && !items[0].separator ? items[0].node : { type: 'list', items };
+  }
+
+  private parsePipeline(): ShellNode {
+    const commands = [this.parseCommand()];
+    while (this.isOp('|')) {
+      this.pos++;
+      this.skipNewlines();
+      commands.push(this.parseCommand());
+    }
+    return commands.length === 1 ? commands[0] : { type: 'pipeline', commands };
+  }
+
+  private parseCommand(): ShellNode {
+    if (this.isOp('(')) {
+      this.pos++;
+      const body = this.parseList();
+      if (!this.isOp(')')) throw new ShellParseError('子 shell 缺少 )');
+      this.pos++;
+      return { type: 'subshell', body, redirects: this.parseRedirects() };
+    }
+
+    const command: ShellCommand = { type: 'command', assignments: [], words: [], redirects: [] };
+    while (!this.done()) {
+      const t = this.tokens[this.pos];
+      if (t.kind === 'op') break;
+      if (t.kind === 'redirect') {
+        command.redirects.push(this.parseRedirect());
+        continue;
+      }
+      this.pos++;
+      if (command.words.length === 0 && /^[A-Za-z_][A-Za-z0-9_]*=/.test(t.word.value)) {
+        command.assignments.push(t.word);
+      } else {
+        command.words.push(t.word);
+      }
+    }
+    if (command.words.length === 0 && command.assignments.length === 0 && command.redirects.length === 0) {
+      throw new ShellParseError(`意外的符号: ${this.describeNext()}`);
+    }
+    return command;
+  }
+
+  private parseRedirects(): ShellRedirect[] {
+    const redirects: ShellRedirect[] = [];
+    while (this.tokens[this.pos]?.kind === 'redirect') redirects.push(this.parseRedirect());
+    return redirects;
+  }
+
+  private parseRedirect(): ShellRedirect {
+    const t = this.tokens[this.pos++] as Extract<Token, { kind: 'redirect' }>;
+    const target = this.tokens[this.pos];
+    if (target?.kind !== 'word') throw new ShellParseError(`重定向 ${t.op} 缺少目标`);
+    this.pos++;
+    return { op: t.op, fd: t.fd, target: target.word };
+  }
+
+  private isOp(value: string): boolean {
+    const t = this.tokens[this.pos];
+    return t?.kind === 'op' && t.value === value;
+  }
+
+  private skipNewlines(): void {
+    while (this.isOp('\n')) this.pos++;
+  }
+}
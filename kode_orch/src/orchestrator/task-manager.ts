@@ -1,15 +1,33 @@
 import { TaskHistory, type Task } from '../memory/task-history.js';
+import type { BgTask } from './bg-task-runner.js';
 import { generateId } from '../utils/id.js';
+import { logger } from '../utils/logger.js';
 
+const BG_STATUS_MAP: Record<BgTask['status'], Task['status']> = {
+  blocked: 'pending',
+  queued: 'pending',
+  running: 'running',
+  completed: 'completed',
+  failed: 'failed',
+  cancelled: 'cancelled',
+};
+
+const FINISHED: Task['status'][] = ['completed', 'failed', 'cancelled'];
+
+/**
+ * Tracks unfinished tasks in memory; finished ones are only kept in task history.
+ */
 export class TaskManager {
   private tasks: Map<string, Task> = new Map();
+  private saveChain: Promise<void> = Promise.resolve();
 
   constructor(private taskHistory: TaskHistory) {}
 
-  createTask(agentType: string, intent: string): Task {
+  createTask(userId: string, agentType: string, intent: string): Task {
     const now = Date.now();
     const task: Task = {
       id: generateId(),
+      userId,
       status: 'pending',
       agentType,
       intent,
@@ -17,17 +35,51 @@ export class TaskManager {
       updatedAt: now,
     };
     this.tasks.set(task.id, task);
-    this.taskHistory.save(task);
+    this.save(task);
     return task;
   }
 
+  /**
+   * Record a BgTask transition (called on every BgTaskRunner update).
+   * The history row shares the BgTask id so bg_task_* tools and history agree.
+   */
+  recordBgTask(bg: BgTask): void {
+    const now = Date.now();
+    let task = this.tasks.get(bg.id);
+    if (!task) {
+      task = {
+        id: bg.id,
+        userId: bg.userId,
+        status: BG_STATUS_MAP[bg.status],
+        agentType: bg.templateId,
+        intent: bg.description,
+        createdAt: now,
+        updatedAt: now,
+        parentTaskId: bg.parentTaskId,
+        lineage: bg.lineage,
+      };
+      this.tasks.set(task.id, task);
+    }
+    task.status = BG_STATUS_MAP[bg.status];
+    task.result = bg.result;
+    task.error = bg.error;
+    task.cancelReason = bg.cancelReason;
+    task.skills = bg.skills;
+    task.resourceUsage = { ...bg.resourceUsage };
+    task.retryCount = bg.retryCount;
+    task.updatedAt = now;
+    this.save(task);
+    this.evictIfFinished(task);
+  }
+
   updateStatus(taskId: string, status: Task['status'], data?: Partial<Task>): void {
     const task = this.tasks.get(taskId);
     if (!task) return;
     task.status = status;
     task.updatedAt = Date.now();
     if (data) Object.assign(task, data);
-    this.taskHistory.save(task);
+    this.save(task);
+    this.evictIfFinished(task);
   }
 
   updateContext(taskId: string, context: string): void {
@@ -35,16 +87,17 @@ export class TaskManager {
     if (!task) return;
     task.context = context;
     task.updatedAt = Date.now();
-    this.taskHistory.save(task);
+    this.save(task);
   }
 
   getTask(taskId: string): Task | undefined {
     return this.tasks.get(taskId);
   }
 
-  getActiveTasks(): Task[] {
+  getActiveTasks(userId?: string): Task[] {
     return [...this.tasks.values()].filter(
-      (t) => t.status === 'pending' || t.status === 'running' || t.status === 'waiting_approval',
+      (t) => (t.status === 'pending' || t.status === 'running' || t.status === 'waiting_approval')
+        && (userId === undefined || t.userId === userId),
     );
   }
 
@@ -54,4 +107,21 @@ export class TaskManager {
     this.updateStatus(taskId, 'cancelled');
     return true;
   }
+
+  /**
+   * A finished BgTask that is chatted with again is re-recorded from its next update.
+   */
+  private evictIfFinished(task: Task): void {
+    if (FINISHED.includes(task.status)) this.tasks.delete(task.id);
+  }
+
+  /**
+   * Writes are serialized so a later transition is never overwritten by an earlier one.
+   */
+  private save(task: Task): void {
+    const snapshot = { ...task };
+    this.saveChain = this.saveChain
+      .then(() => this.taskHistory.save(snapshot))
+      .catch((err) => logger.warn('task-manager', 'Failed to save task history', { taskId: task.id, error: String(err) }));
+  }
 }
@@ -0,0 +1,89 @@
+import { execFile } from 'node:child_process';
+import { promisify } from 'node:util';
+import { resolve } from 'node:path';
+import { LocalSandbox, type Sandbox } from '@shareai-lab/kode-sdk';
+import { logger } from '../utils/logger.js';
+
+const execFileAsync = promisify(execFile);
+
+const DEFAULT_EXEC_TIMEOUT_MS = 120_000;
+const MAX_OUTPUT_BYTES = 10 * 1024 * 1024;
+
+export interface DockerSandboxOptions {
+  name: string;            // container name
+  image: string;
+  workDir: string;         // host directory, mounted at the same path in the container
+  cpus?: string;           // docker --cpus
+  memory?: string;         // docker --memory
+  network: string;         // docker --network, e.g. none / bridge
+}
+
+/**
+ * Runs commands in a long-lived local container. The workspace is bind-mounted at
+ * the same absolute path, so file operations go through a LocalSandbox on the host
+ * directory and paths agree inside and outside the container.
+ */
+export class DockerSandbox implements Sandbox {
+  readonly kind = 'docker' as const;
+  readonly workDir: string;
+  readonly fs: Sandbox['fs'];
+
+  constructor(private opts: DockerSandboxOptions) {
+    this.workDir = resolve(opts.workDir);
+    this.fs = new LocalSandbox({ workDir: this.workDir, enforceBoundary: true }).fs;
+  }
+
+  get image(): string {
+    return this.opts.image;
+  }
+
+  async init(): Promise<void> {
+    // A task resumed after a restart replaces the container it had before
+    await docker(['rm', '-f', this.opts.name]).catch(() => undefined);
+
+    const args = [
+      'run', '-d', '--init',
+      '--name', this.opts.name,
+      '--label', 'kode-orch.sandbox=1',
+      '--network', this.opts.network,
+      '-v', `${this.workDir}:${this.workDir}`,
+      '-w', this.workDir,
+    ];
+    if (this.opts.cpus) args.push('--cpus', this.opts.cpus);
+    if (this.opts.memory) args.push('--memory', this.opts.memory);
+    // Files written through the mount stay owned by the host user
+    if (process.getuid && process.getgid) args.push('--user', `${process.getuid()}:${process.getgid()}`);
+    args.push(this.opts.image, 'tail', '-f', '/dev/null');
+
+    await docker(args);
+    logger.info('sandbox', `Docker container started`, { name: this.opts.name, image: this.opts.image });
+  }
+
+  async exec(cmd: string, opts?: { timeoutMs?: number }): Promise<{ code: number; stdout: string; stderr: string }> {
+    const timeoutMs = opts?.timeoutMs ?? DEFAULT_EXEC_TIMEOUT_MS;
+    // Killing the docker client does not stop the process in the container, so time out inside as well
+    const seconds = Math.max(Math.ceil(timeoutMs / 1000), 1);
+    const args = ['exec', '-w', this.workDir, this.opts.name, 'timeout', '-s', 'KILL', String(seconds), 'sh', '-c', cmd];
+    try {
+      const { stdout, stderr } = await docker(args, timeoutMs + 5000);
+      return { code: 0, stdout, stderr };
+    } catch (err: any) {
+      const code = typeof err.code === 'number' ? err.code : 1;
+      const stderr = err.stderr || String(err.message ?? err);
+      return { code, stdout: err.stdout ?? '', stderr: code === 137 ? `${stderr}\n命令超时（${seconds}s）被终止` : stderr };
+    }
+  }
+
+  async dispose(): Promise<void> {
+    try {
+      await docker(['rm', '-f', this.opts.name]);
+      logger.info('sandbox', `Docker container removed`, { name: this.opts.name });
+    } catch (err) {
+      logger.warn('sandbox', `Docker container removal failed`, { name: this.opts.name, error: String(err) });
+    }
+  }
+}
+
+function docker(args: string[], timeoutMs?: number): Promise<{ stdout: string; stderr: string }> {
+  return execFileAsync('docker', args, { timeout: timeoutMs, maxBuffer: MAX_OUTPUT_BYTES, encoding: 'utf8' });
+}
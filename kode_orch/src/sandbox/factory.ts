@@ -1,25 +1,93 @@
+import { mkdir } from 'node:fs/promises';
 import { LocalSandbox, E2BSandbox, type Sandbox } from '@shareai-lab/kode-sdk';
 import type { AppConfig } from '../config.js';
+import { DockerSandbox } from './docker.js';
+import { generateId } from '../utils/id.js';
 import { logger } from '../utils/logger.js';
 
+export interface SandboxOptions {
+  workDir?: string;        // overrides SANDBOX_WORK_DIR for local/docker sandboxes (per-task workspaces)
+  taskId?: string;
+  userId?: string;         // pool: recycled sandboxes are only reused by the same user
+  templateId?: string;     // docker: image selection
+  skills?: string[];       // docker: image selection, takes precedence over the template
+}
+
 export class AppSandboxFactory {
   constructor(private config: AppConfig['sandbox']) {}
 
-  async create(): Promise<Sandbox> {
-    if (this.config.kind === 'e2b' && this.config.e2b?.apiKey) {
-      return this.createE2B();
+  /** The kind create() actually returns (e2b without an API key falls back to local) */
+  get kind(): AppConfig['sandbox']['kind'] {
+    if (this.config.kind === 'e2b') return this.config.e2b?.apiKey ? 'e2b' : 'local';
+    return this.config.kind;
+  }
+
+  /** Whether sandboxes work on a host directory (and can use per-task workspaces) */
+  hasHostWorkspace(): boolean {
+    return this.kind !== 'e2b';
+  }
+
+  /**
+   * Sandboxes created with equal keys are interchangeable, so a SandboxPool can pre-create them.
+   * undefined: not worth pooling (local sandboxes start instantly) or bound to a per-task workspace.
+   */
+  poolKey(opts: SandboxOptions): string | undefined {
+    if (this.kind === 'local' || opts.workDir) return undefined;
+    if (this.kind === 'docker') return `docker:${opts.templateId ?? ''}:${this.dockerImage(opts)}`;
+    return `e2b:${opts.templateId ?? ''}`;
+  }
+
+  async create(opts: SandboxOptions = {}): Promise<Sandbox> {
+    switch (this.kind) {
+      case 'e2b':
+        return this.createE2B();
+      case 'docker':
+        return this.createDocker(opts);
+      default:
+        return this.createLocal(opts.workDir ?? this.config.workDir);
     }
-    return this.createLocal();
   }
 
-  private createLocal(): Sandbox {
-    logger.info('sandbox', `Creating LocalSandbox at ${this.config.workDir}`);
+  private createLocal(workDir: string): Sandbox {
+    logger.info('sandbox', `Creating LocalSandbox at ${workDir}`);
     return new LocalSandbox({
-      workDir: this.config.workDir,
+      workDir,
       enforceBoundary: true,
     });
   }
 
+  private async createDocker(opts: SandboxOptions): Promise<Sandbox> {
+    const docker = this.config.docker;
+    const image = this.dockerImage(opts);
+    const workDir = opts.workDir ?? this.config.workDir;
+    // docker would create a missing mount source as root
+    await mkdir(workDir, { recursive: true });
+
+    logger.info('sandbox', `Creating DockerSandbox (image: ${image})`, { workDir, taskId: opts.taskId });
+    const sandbox = new DockerSandbox({
+      name: `kode-sandbox-${opts.taskId ?? generateId()}`,
+      image,
+      workDir,
+      cpus: docker.cpus,
+      memory: docker.memory,
+      network: docker.network,
+    });
+    try {
+      await sandbox.init();
+      return sandbox;
+    } catch (err) {
+      logger.error('sandbox', `DockerSandbox creation failed`, err);
+      throw err;
+    }
+  }
+
+  private dockerImage(opts: SandboxOptions): string {
+    const { image, images } = this.config.docker;
+    return opts.skills?.map((s) => images[s]).find(Boolean)
+      ?? (opts.templateId ? images[opts.templateId] : undefined)
+      ?? image;
+  }
+
   private async createE2B(): Promise<Sandbox> {
     const e2bConfig = this.config.e2b!;
     logger.info('sandbox', `Creating E2BSandbox (template: ${e2bConfig.template || 'base'})`);
@@ -0,0 +1,187 @@
+import type { Sandbox } from '@shareai-lab/kode-sdk';
+import type { AppConfig } from '../config.js';
+import type { SandboxOptions } from './factory.js';
+import { logger } from '../utils/logger.js';
+
+export type SandboxPoolConfig = AppConfig['sandbox']['pool'];
+
+/** What the pool creates sandboxes with: AppSandboxFactory, or a fake in tests */
+export interface SandboxSource {
+  create(opts?: SandboxOptions): Promise<Sandbox>;
+  poolKey(opts: SandboxOptions): string | undefined;
+}
+
+export interface SandboxPoolMetrics {
+  hits: number;            // acquired from the pool
+  misses: number;          // poolable, but no idle sandbox was ready
+  warmed: number;          // sandboxes pre-created by the pool
+  recycled: number;        // returned to the pool after a completed task
+  expired: number;         // idle longer than maxIdleMs and replaced
+  destroyed: number;
+  createFailures: number;
+  pools: Array<{ key: string; target: number; idle: number; creating: number; inUse: number }>;
+}
+
+interface IdleSandbox {
+  sandbox: Sandbox;
+  since: number;
+  uses: number;            // tasks already served (recycled sandboxes)
+  userId?: string;         // owner of the task that used it; recycled sandboxes only go back to them
+}
+
+interface PoolSlot {
+  opts: SandboxOptions;    // what warm sandboxes are created with
+  target: number;
+  idle: IdleSandbox[];
+  creating: number;
+  inUse: number;
+}
+
+/**
+ * Keeps pre-initialized sandboxes per pool key (sandbox kind and template) so a
+ * task does not wait for a cold start. Sandboxes that cannot be pooled, e.g. ones
+ * mounting a per-task workspace, are created on demand.
+ */
+export class SandboxPool {
+  private slots = new Map<string, PoolSlot>();
+  private leases = new Map<Sandbox, { key: string; uses: number; userId?: string }>();
+  private counters = { hits: 0, misses: 0, warmed: 0, recycled: 0, expired: 0, destroyed: 0, createFailures: 0 };
+  private sweepTimer?: ReturnType<typeof setInterval>;
+  private closed = false;
+
+  constructor(private source: SandboxSource, private config: SandboxPoolConfig) {}
+
+  /**
+   * Start keeping sandboxes warm for these templates (SANDBOX_POOL_SIZE, or the per-template size).
+   */
+  warm(templateIds: string[]): void {
+    for (const templateId of templateIds) {
+      const opts: SandboxOptions = { templateId };
+      const key = this.source.poolKey(opts);
+      const target = this.config.templates[templateId] ?? this.config.size;
+      if (!key || target <= 0) continue;
+
+      const slot = this.slots.get(key);
+      if (slot) slot.target = Math.max(slot.target, target);
+      else this.slots.set(key, { opts, target, idle: [], creating: 0, inUse: 0 });
+      this.refill(key);
+    }
+
+    if (!this.sweepTimer && this.config.maxIdleMs > 0) {
+      this.sweepTimer = setInterval(() => this.sweep(), Math.max(this.config.maxIdleMs / 2, 10));
+      this.sweepTimer.unref();
+    }
+  }
+
+  async acquire(opts: SandboxOptions): Promise<Sandbox> {
+    const key = this.source.poolKey(opts);
+    const slot = key ? this.slots.get(key) : undefined;
+    if (!key || !slot) return this.source.create(opts);
+
+    // A recycled sandbox keeps its previous task's files and processes, so it never crosses users
+    const index = slot.idle.findIndex((e) => e.uses === 0 || (e.userId !== undefined && e.userId === opts.userId));
+    const entry = index >= 0 ? slot.idle.splice(index, 1)[0] : undefined;
+    if (entry) {
+      this.counters.hits++;
+      slot.inUse++;
+      this.leases.set(entry.sandbox, { key, uses: entry.uses + 1, userId: opts.userId });
+      this.refill(key);
+      return entry.sandbox;
+    }
+
+    this.counters.misses++;
+    const sandbox = await this.source.create(opts);
+    slot.inUse++;
+    this.leases.set(sandbox, { key, uses: 1, userId: opts.userId });
+    return sandbox;
+  }
+
+  /**
+   * Hand a sandbox back when its task is done. With recycling enabled, sandboxes of
+   * completed tasks go back to the pool (up to maxUses) for the same user's next task;
+   * everything else is destroyed.
+   */
+  async release(sandbox: Sandbox, reusable = false): Promise<void> {
+    const lease = this.leases.get(sandbox);
+    this.leases.delete(sandbox);
+    const slot = lease ? this.slots.get(lease.key) : undefined;
+    if (slot) slot.inUse--;
+
+    // A recycled sandbox is ready now; a refill still in flight is dropped when it lands
+    if (slot && lease?.userId && reusable && this.config.recycle && !this.closed
+      && lease.uses < this.config.maxUses && slot.idle.length < slot.target) {
+      slot.idle.push({ sandbox, since: Date.now(), uses: lease.uses, userId: lease.userId });
+      this.counters.recycled++;
+      return;
+    }
+    await this.destroy(sandbox);
+  }
+
+  metrics(): SandboxPoolMetrics {
+    return {
+      ...this.counters,
+      pools: [...this.slots].map(([key, slot]) => ({
+        key,
+        target: slot.target,
+        idle: slot.idle.length,
+        creating: slot.creating,
+        inUse: slot.inUse,
+      })),
+    };
+  }
+
+  /**
+   * Destroy idle sandboxes and stop refilling. Leased sandboxes are destroyed on release.
+   */
+  async close(): Promise<void> {
+    this.closed = true;
+    if (this.sweepTimer) clearInterval(this.sweepTimer);
+    const idle = [...this.slots.values()].flatMap((slot) => slot.idle.splice(0));
+    await Promise.all(idle.map((entry) => this.destroy(entry.sandbox)));
+  }
+
+  private refill(key: string): void {
+    const slot = this.slots.get(key);
+    if (!slot || this.closed) return;
+    while (slot.idle.length + slot.creating < slot.target) {
+      slot.creating++;
+      this.source.create(slot.opts)
+        .then(async (sandbox) => {
+          this.counters.warmed++;
+          if (this.closed || slot.idle.length >= slot.target) await this.destroy(sandbox);
+          else slot.idle.push({ sandbox, since: Date.now(), uses: 0 });
+        })
+        // Retried on the next acquire or sweep
+        .catch((err) => {
+          this.counters.createFailures++;
+          logger.warn('sandbox-pool', `Warm sandbox creation failed`, { key, error: String(err) });
+        })
+        .finally(() => { slot.creating--; });
+    }
+  }
+
+  /**
+   * Replace sandboxes idle for longer than maxIdleMs (e.g. before an e2b VM times out).
+   */
+  private sweep(): void {
+    const now = Date.now();
+    for (const [key, slot] of this.slots) {
+      const expired = slot.idle.filter((entry) => now - entry.since >= this.config.maxIdleMs);
+      if (expired.length > 0) {
+        slot.idle = slot.idle.filter((entry) => !expired.includes(entry));
+        this.counters.expired += expired.length;
+        for (const entry of expired) void this.destroy(entry.sandbox);
+      }
+      this.refill(key);
+    }
+  }
+
+  private async destroy(sandbox: Sandbox): Promise<void> {
+    this.counters.destroyed++;
+    try {
+      await sandbox.dispose?.();
+    } catch (err) {
+      logger.warn('sandbox-pool', `Sandbox dispose failed`, { error: String(err) });
+    }
+  }
+}
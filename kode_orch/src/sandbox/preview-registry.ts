@@ -0,0 +1,42 @@
+import { randomBytes } from 'node:crypto';
+
+/**
+ * Ports that tasks on local sandboxes exposed through sandbox_preview, served by
+ * the HTTP server under /preview/:taskId/. Each preview has its own token, so the
+ * URL can be opened in a browser without the user's API token.
+ */
+
+export interface PreviewTarget {
+  taskId: string;
+  port: number;
+  token: string;
+  createdAt: number;
+}
+
+const previews = new Map<string, PreviewTarget>();
+
+/**
+ * Registering again (e.g. another port) replaces the target but keeps the token.
+ */
+export function registerPreview(taskId: string, port: number): PreviewTarget {
+  const target: PreviewTarget = {
+    taskId,
+    port,
+    token: previews.get(taskId)?.token ?? randomBytes(24).toString('base64url'),
+    createdAt: Date.now(),
+  };
+  previews.set(taskId, target);
+  return target;
+}
+
+export function getPreview(taskId: string): PreviewTarget | undefined {
+  return previews.get(taskId);
+}
+
+export function removePreview(taskId: string): void {
+  previews.delete(taskId);
+}
+
+export function previewPath(taskId: string): string {
+  return `/preview/${encodeURIComponent(taskId)}/`;
+}
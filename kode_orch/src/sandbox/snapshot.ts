@@ -0,0 +1,62 @@
+import { readFile } from 'node:fs/promises';
+import { join } from 'node:path';
+import type { Sandbox } from '@shareai-lab/kode-sdk';
+
+/** Never treated as deliverables */
+const EXCLUDED_DIRS = ['.git', 'node_modules', '__pycache__', '.venv'];
+
+export interface FileStamp {
+  size: number;
+  mtimeMs: number;
+}
+
+/** Relative path -> size and mtime of every file under the sandbox's work dir */
+export type WorkspaceSnapshot = Record<string, FileStamp>;
+
+export interface FileChange {
+  path: string;
+  status: 'created' | 'modified';
+  size: number;
+}
+
+/**
+ * Lists the work dir through sandbox.exec, so it works for local, docker and e2b sandboxes alike.
+ */
+export async function snapshotWorkspace(sandbox: Sandbox): Promise<WorkspaceSnapshot> {
+  const prune = EXCLUDED_DIRS.map((dir) => `-name '${dir}'`).join(' -o ');
+  // NUL-separated records: paths may contain any character but NUL
+  const { code, stdout, stderr } = await sandbox.exec(`find . \\( ${prune} \\) -prune -o -type f -printf '%s\\t%T@\\t%P\\0'`);
+  if (code !== 0) throw new Error(`列出工作区文件失败：${stderr || `exit ${code}`}`);
+
+  const snapshot: WorkspaceSnapshot = {};
+  for (const record of stdout.split('\0')) {
+    const [size, mtime, ...rest] = record.split('\t');
+    const path = rest.join('\t');
+    if (!path) continue;
+    snapshot[path] = { size: Number(size), mtimeMs: Math.round(Number(mtime) * 1000) };
+  }
+  return snapshot;
+}
+
+export function diffSnapshots(before: WorkspaceSnapshot, after: WorkspaceSnapshot): FileChange[] {
+  const changes: FileChange[] = [];
+  for (const [path, stamp] of Object.entries(after)) {
+    const prev = before[path];
+    if (!prev) changes.push({ path, status: 'created', size: stamp.size });
+    else if (prev.size !== stamp.size || prev.mtimeMs !== stamp.mtimeMs) changes.push({ path, status: 'modified', size: stamp.size });
+  }
+  return changes.sort((a, b) => a.path.localeCompare(b.path));
+}
+
+/**
+ * Binary-safe read of a file relative to the work dir.
+ */
+export async function readSandboxFile(sandbox: Sandbox, path: string): Promise<Buffer> {
+  // Local and docker sandboxes work on a host directory
+  if (sandbox.kind !== 'e2b' && sandbox.workDir) {
+    return readFile(join(sandbox.workDir, path));
+  }
+  const { code, stdout, stderr } = await sandbox.exec(`base64 < '${path.replace(/'/g, `'\\''`)}'`);
+  if (code !== 0) throw new Error(stderr || `base64 exit ${code}`);
+  return Buffer.from(stdout.replace(/\s+/g, ''), 'base64');
+}
@@ -0,0 +1,112 @@
+import { cp, mkdir, readdir, rm, stat, constants } from 'node:fs/promises';
+import { execFile } from 'node:child_process';
+import { promisify } from 'node:util';
+import { join, resolve } from 'node:path';
+import type { AppConfig } from '../config.js';
+import { logger } from '../utils/logger.js';
+
+const execFileAsync = promisify(execFile);
+
+/**
+ * shared: every task uses SANDBOX_WORK_DIR (previous behaviour)
+ * fresh: an empty directory per task
+ * copy: a copy of the base dir (reflinked where the filesystem supports it)
+ * worktree: a detached git worktree of the base dir's HEAD
+ */
+export type WorkspaceMode = 'shared' | 'fresh' | 'copy' | 'worktree';
+
+/**
+ * keep: never delete · delete: delete after the retention delay
+ * delete_on_success: like delete, but failed/cancelled workspaces are kept for inspection
+ */
+export type WorkspaceRetention = 'keep' | 'delete' | 'delete_on_success';
+
+export type WorkspaceConfig = AppConfig['sandbox']['workspaces'];
+
+/**
+ * Creates and removes per-task workspace directories under the workspace root.
+ * Directories are named after the task id.
+ */
+export class WorkspaceManager {
+  private readonly root: string;
+  private readonly baseDir: string;
+
+  constructor(private config: WorkspaceConfig, baseDir: string) {
+    this.root = resolve(config.root);
+    this.baseDir = resolve(baseDir);
+  }
+
+  get mode(): WorkspaceMode {
+    return this.config.mode;
+  }
+
+  pathFor(taskId: string): string {
+    return join(this.root, taskId);
+  }
+
+  async create(taskId: string): Promise<string> {
+    const dir = this.pathFor(taskId);
+    await mkdir(this.root, { recursive: true });
+
+    switch (this.config.mode) {
+      case 'copy':
+        await mkdir(dir, { recursive: true });
+        // Entry by entry, so a workspace root directly inside the base dir is skipped
+        for (const entry of await readdir(this.baseDir)) {
+          const src = join(this.baseDir, entry);
+          if (src === this.root) continue;
+          await cp(src, join(dir, entry), { recursive: true, mode: constants.COPYFILE_FICLONE });
+        }
+        break;
+      case 'worktree':
+        await execFileAsync('git', ['-C', this.baseDir, 'worktree', 'add', '--detach', dir, 'HEAD']);
+        break;
+      default:
+        await mkdir(dir, { recursive: true });
+    }
+    logger.info('workspace', `Workspace created`, { taskId, mode: this.config.mode, dir });
+    return dir;
+  }
+
+  /**
+   * Whether a finished task's workspace should eventually be deleted.
+   */
+  shouldDelete(status: string): boolean {
+    if (this.config.retention === 'keep') return false;
+    if (this.config.retention === 'delete_on_success') return status === 'completed';
+    return true;
+  }
+
+  get retentionMs(): number {
+    return this.config.retentionMs;
+  }
+
+  async remove(taskId: string): Promise<void> {
+    const dir = this.pathFor(taskId);
+    if (this.config.mode === 'worktree') {
+      try {
+        await execFileAsync('git', ['-C', this.baseDir, 'worktree', 'remove', '--force', dir]);
+        logger.info('workspace', `Worktree removed`, { taskId });
+        return;
+      } catch (err) {
+        logger.warn('workspace', `git worktree remove failed, deleting directory`, { taskId, error: String(err) });
+      }
+    }
+    await rm(dir, { recursive: true, force: true });
+    logger.info('workspace', `Workspace removed`, { taskId });
+  }
+
+  /**
+   * Task ids with a workspace on disk, with the directory's last modification time.
+   */
+  async list(): Promise<Array<{ taskId: string; mtimeMs: number }>> {
+    const entries = await readdir(this.root, { withFileTypes: true }).catch(() => []);
+    const result: Array<{ taskId: string; mtimeMs: number }> = [];
+    for (const entry of entries) {
+      if (!entry.isDirectory()) continue;
+      const info = await stat(join(this.root, entry.name)).catch(() => undefined);
+      if (info) result.push({ taskId: entry.name, mtimeMs: info.mtimeMs });
+    }
+    return result;
+  }
+}
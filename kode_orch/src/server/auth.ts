@@ -0,0 +1,49 @@
+import type { IncomingMessage } from 'node:http';
+import { timingSafeEqual } from 'node:crypto';
+import { DEFAULT_USER_ID, USER_ROLES, type UserRole, type UserStore } from '../memory/user-store.js';
+
+export interface AuthUser {
+  id: string;
+  name: string;
+  role: UserRole;
+  isAdmin: boolean;     // holder of AUTH_TOKEN: may manage users and tokens
+}
+
+export function hasRole(user: AuthUser, required: UserRole): boolean {
+  return USER_ROLES.indexOf(user.role) >= USER_ROLES.indexOf(required);
+}
+
+/**
+ * Resolves request credentials to a user.
+ * AUTH_TOKEN acts as the admin token of the default user; every other
+ * token is looked up (by hash) in the user store.
+ */
+export class Authenticator {
+  constructor(
+    private adminToken: string,
+    private userStore: UserStore,
+  ) {}
+
+  /**
+   * Bearer header first; EventSource endpoints fall back to ?token= since they cannot set headers.
+   */
+  async authenticate(req: IncomingMessage, url: URL, allowQueryToken = false): Promise<AuthUser | undefined> {
+    const header = req.headers.authorization;
+    const token = header?.startsWith('Bearer ')
+      ? header.slice('Bearer '.length)
+      : allowQueryToken ? url.searchParams.get('token') : null;
+    if (!token) return undefined;
+
+    if (safeEqual(token, this.adminToken)) {
+      return { id: DEFAULT_USER_ID, name: 'admin', role: 'approver', isAdmin: true };
+    }
+    const user = await this.userStore.authenticate(token);
+    return user ? { id: user.id, name: user.name, role: user.role, isAdmin: false } : undefined;
+  }
+}
+
+function safeEqual(a: string, b: string): boolean {
+  const bufA = Buffer.from(a);
+  const bufB = Buffer.from(b);
+  return bufA.length === bufB.length && timingSafeEqual(bufA, bufB);
+}
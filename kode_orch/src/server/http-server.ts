@@ -1,16 +1,25 @@
 import { createServer, type IncomingMessage, type ServerResponse } from 'node:http';
 import { readFile } from 'node:fs/promises';
 import { join } from 'node:path';
-import { handleChat, handleCommand, handleStatus, handleHistory, handleApproval, handleSandboxDispose, handleBgTasksList, type RouteContext } from './routes.js';
+import type { Duplex } from 'node:stream';
+import { handleChat, handleCommand, handleStatus, handleHistory, handleApproval, handleSandboxDispose, handleSandboxPool, handleBgTasksList, handleBgTaskStream, handleBgTaskArtifacts, handleTaskHistory, handleMemoryPreferences, handleMemoryDocuments, handleSessions, handleSession, handleMe, handlePolicy, handlePolicyDryRun, handleApprovalGrants, handleApprovalGrant, handleApprovalAudit, handleApprovalDiff, handleUsers, handleUser, handleUserTokens, type RouteContext } from './routes.js';
+import { handlePreviewRequest, handlePreviewUpgrade, isPreviewPath } from './preview-proxy.js';
+import { hasRole, type Authenticator } from './auth.js';
 import { logger } from '../utils/logger.js';
 
-export function startServer(port: number, authToken: string, ctx: RouteContext): void {
+export function startServer(port: number, authenticator: Authenticator, baseCtx: Omit<RouteContext, 'user'>): void {
   const server = createServer(async (req, res) => {
+    // Previews carry their own token and must see every method, including OPTIONS
+    if (req.url && isPreviewPath(req.url.split('?')[0])) {
+      handlePreviewRequest(req, res, new URL(req.url, `http://localhost:${port}`));
+      return;
+    }
+
     // CORS preflight
     if (req.method === 'OPTIONS') {
       res.writeHead(204, {
         'Access-Control-Allow-Origin': '*',
-        'Access-Control-Allow-Methods': 'GET, POST, OPTIONS',
+        'Access-Control-Allow-Methods': 'GET, POST, PUT, PATCH, DELETE, OPTIONS',
         'Access-Control-Allow-Headers': 'Content-Type, Authorization',
       });
       res.end();
@@ -19,44 +28,90 @@ export function startServer(port: number, authToken: string, ctx: RouteContext):
 
     const url = new URL(req.url || '/', `http://localhost:${port}`);
     const path = url.pathname;
+    const taskStreamMatch = path.match(/^\/api\/bg-tasks\/([^/]+)\/stream$/);
+    const taskArtifactsMatch = path.match(/^\/api\/bg-tasks\/([^/]+)\/artifacts$/);
+    const sessionMatch = path.match(/^\/api\/sessions\/([^/]+)$/);
+    const userMatch = path.match(/^\/api\/users\/([^/]+)$/);
+    const userTokensMatch = path.match(/^\/api\/users\/([^/]+)\/tokens(?:\/([^/]+))?$/);
+    const grantMatch = path.match(/^\/api\/approval\/grants\/([^/]+)$/);
+    const approvalDiffMatch = path.match(/^\/api\/approval\/([^/]+)\/diff$/);
 
-    // Auth check for API routes (except /api/events which uses query param)
-    if (path.startsWith('/api/') && path !== '/api/events') {
-      const auth = req.headers.authorization;
-      if (!auth || auth !== `Bearer ${authToken}`) {
-        res.writeHead(401, { 'Content-Type': 'application/json' });
-        res.end(JSON.stringify({ error: 'Unauthorized' }));
-        return;
+    try {
+      // Auth check for API routes (EventSource streams may pass the token as a query param)
+      let ctx: RouteContext | undefined;
+      if (path.startsWith('/api/')) {
+        const isStream = path === '/api/events' || !!taskStreamMatch;
+        const user = await authenticator.authenticate(req, url, isStream);
+        if (!user) {
+          res.writeHead(401, { 'Content-Type': 'application/json' });
+          res.end(JSON.stringify({ error: 'Unauthorized' }));
+          return;
+        }
+        ctx = { ...baseCtx, user };
       }
-    }
 
-    try {
       // Route dispatch
       if (path === '/' && req.method === 'GET') {
         await serveStaticHtml(res);
+      } else if (!ctx) {
+        res.writeHead(404, { 'Content-Type': 'application/json' });
+        res.end(JSON.stringify({ error: 'Not Found' }));
       } else if (path === '/api/chat' && req.method === 'POST') {
         await handleChat(req, res, ctx);
       } else if (path === '/api/command' && req.method === 'POST') {
         await handleCommand(req, res, ctx);
       } else if (path === '/api/events' && req.method === 'GET') {
-        // EventSource 不支持自定义 header，从 query 取 token
-        const qToken = url.searchParams.get('token');
-        if (!qToken || qToken !== authToken) {
-          res.writeHead(401, { 'Content-Type': 'application/json' });
-          res.end(JSON.stringify({ error: 'Unauthorized' }));
-          return;
-        }
-        ctx.sseManager.addConnection(res);
+        ctx.sseManager.addConnection(res, {
+          sessionId: url.searchParams.get('sessionId') || undefined,
+          userId: ctx.user.id,
+          allApprovals: hasRole(ctx.user, 'approver'),
+        });
+      } else if (path === '/api/policy' && req.method === 'GET') {
+        handlePolicy(req, res, ctx);
+      } else if (path === '/api/policy/dry-run' && req.method === 'POST') {
+        await handlePolicyDryRun(req, res, ctx);
+      } else if (path === '/api/me' && req.method === 'GET') {
+        handleMe(req, res, ctx);
+      } else if (path === '/api/users' && ['GET', 'POST'].includes(req.method!)) {
+        await handleUsers(req, res, ctx);
+      } else if (userMatch && req.method === 'PATCH') {
+        await handleUser(req, res, ctx, decodeURIComponent(userMatch[1]));
+      } else if (userTokensMatch && (userTokensMatch[2] ? req.method === 'DELETE' : ['GET', 'POST'].includes(req.method!))) {
+        await handleUserTokens(req, res, ctx, decodeURIComponent(userTokensMatch[1]), userTokensMatch[2] && decodeURIComponent(userTokensMatch[2]));
       } else if (path === '/api/status' && req.method === 'GET') {
         handleStatus(req, res, ctx);
       } else if (path === '/api/history' && req.method === 'GET') {
         await handleHistory(req, res, ctx);
+      } else if (path === '/api/tasks/history' && req.method === 'GET') {
+        await handleTaskHistory(req, res, ctx);
+      } else if (path === '/api/sessions' && ['GET', 'POST'].includes(req.method!)) {
+        await handleSessions(req, res, ctx);
+      } else if (sessionMatch && ['GET', 'PATCH', 'DELETE'].includes(req.method!)) {
+        await handleSession(req, res, ctx, decodeURIComponent(sessionMatch[1]));
+      } else if (path === '/api/memory/preferences' && ['GET', 'PUT', 'DELETE'].includes(req.method!)) {
+        await handleMemoryPreferences(req, res, ctx);
+      } else if (path === '/api/memory/documents' && ['GET', 'POST', 'DELETE'].includes(req.method!)) {
+        await handleMemoryDocuments(req, res, ctx);
       } else if (path === '/api/approval' && req.method === 'POST') {
         await handleApproval(req, res, ctx);
+      } else if (path === '/api/approvals/audit' && req.method === 'GET') {
+        await handleApprovalAudit(req, res, ctx);
+      } else if (path === '/api/approval/grants' && req.method === 'GET') {
+        await handleApprovalGrants(req, res, ctx);
+      } else if (approvalDiffMatch && req.method === 'GET') {
+        handleApprovalDiff(req, res, ctx, decodeURIComponent(approvalDiffMatch[1]));
+      } else if (grantMatch && req.method === 'DELETE') {
+        await handleApprovalGrant(req, res, ctx, decodeURIComponent(grantMatch[1]));
       } else if (path === '/api/sandbox/dispose' && req.method === 'POST') {
         await handleSandboxDispose(req, res, ctx);
+      } else if (path === '/api/sandbox/pool' && req.method === 'GET') {
+        handleSandboxPool(req, res, ctx);
       } else if (path === '/api/bg-tasks' && req.method === 'GET') {
         await handleBgTasksList(req, res, ctx);
+      } else if (taskStreamMatch && req.method === 'GET') {
+        handleBgTaskStream(req, res, ctx, decodeURIComponent(taskStreamMatch[1]));
+      } else if (taskArtifactsMatch && req.method === 'GET') {
+        await handleBgTaskArtifacts(req, res, ctx, decodeURIComponent(taskArtifactsMatch[1]));
       } else {
         res.writeHead(404, { 'Content-Type': 'application/json' });
         res.end(JSON.stringify({ error: 'Not Found' }));
@@ -72,6 +127,13 @@ export function startServer(port: number, authToken: string, ctx: RouteContext):
     }
   });
 
+  // Only previews accept WebSocket upgrades
+  server.on('upgrade', (req: IncomingMessage, socket: Duplex, head: Buffer) => {
+    const url = new URL(req.url || '/', `http://localhost:${port}`);
+    if (isPreviewPath(url.pathname)) handlePreviewUpgrade(req, socket, head, url);
+    else socket.destroy();
+  });
+
   server.listen(port, () => {
     logger.info('http', `Server listening on http://localhost:${port}`);
   });
@@ -0,0 +1,157 @@
+import { request, STATUS_CODES, type IncomingHttpHeaders, type IncomingMessage, type OutgoingHttpHeaders, type ServerResponse } from 'node:http';
+import { connect, type Socket } from 'node:net';
+import type { Duplex } from 'node:stream';
+import { timingSafeEqual } from 'node:crypto';
+import { getPreview, previewPath, type PreviewTarget } from '../sandbox/preview-registry.js';
+import { logger } from '../utils/logger.js';
+
+/**
+ * Reverse proxy for previews of local sandboxes: /preview/:taskId/<path> is
+ * forwarded to localhost:<port> as /<path>, including WebSocket upgrades.
+ * The preview token arrives once as ?token= and is then kept in a cookie scoped
+ * to the preview's path, so pages can load their assets without it.
+ */
+
+const COOKIE_NAME = 'kode_preview';
+const PREVIEW_PATH = /^\/preview\/([^/]+)(\/.*)?$/;
+const HOP_BY_HOP = ['connection', 'keep-alive', 'proxy-authenticate', 'proxy-authorization', 'te', 'trailer', 'transfer-encoding', 'upgrade'];
+
+type Resolution =
+  | { ok: true; target: PreviewTarget; upstreamPath: string; fromQuery: boolean }
+  | { ok: false; status: number; error: string };
+
+export function isPreviewPath(path: string): boolean {
+  return PREVIEW_PATH.test(path);
+}
+
+export function handlePreviewRequest(req: IncomingMessage, res: ServerResponse, url: URL): void {
+  const resolved = resolvePreview(req, url);
+  if (!resolved.ok) {
+    res.writeHead(resolved.status, { 'Content-Type': 'text/plain; charset=utf-8' });
+    res.end(resolved.error);
+    return;
+  }
+  const { target, upstreamPath, fromQuery } = resolved;
+  const prefix = previewPath(target.taskId);
+
+  // Swap the query token for the cookie, and add the trailing slash relative URLs need
+  if ((fromQuery || !url.pathname.startsWith(prefix)) && (req.method === 'GET' || req.method === 'HEAD')) {
+    const headers: OutgoingHttpHeaders = { Location: prefix + upstreamPath.slice(1) };
+    if (fromQuery) headers['Set-Cookie'] = `${COOKIE_NAME}=${target.token}; Path=${prefix}; HttpOnly; SameSite=Lax`;
+    res.writeHead(302, headers);
+    res.end();
+    return;
+  }
+
+  const upstream = request({
+    createConnection: () => connectUpstream(target),
+    method: req.method,
+    path: upstreamPath,
+    headers: forwardHeaders(req, target),
+  }, (upRes) => {
+    const headers: OutgoingHttpHeaders = {};
+    for (const [name, value] of Object.entries(upRes.headers)) {
+      if (value !== undefined && !HOP_BY_HOP.includes(name)) headers[name] = value;
+    }
+    // Keep the app's own redirects inside the preview
+    const location = upRes.headers.location;
+    if (location?.startsWith('/') && !location.startsWith('//')) headers.location = prefix + location.slice(1);
+    res.writeHead(upRes.statusCode ?? 502, headers);
+    upRes.pipe(res);
+  });
+  upstream.on('error', (err) => {
+    logger.warn('preview', `Upstream request failed`, { taskId: target.taskId, port: target.port, error: String(err) });
+    if (!res.headersSent) {
+      res.writeHead(502, { 'Content-Type': 'text/plain; charset=utf-8' });
+      res.end(`预览服务不可用（端口 ${target.port}）`);
+    } else {
+      res.destroy();
+    }
+  });
+  req.pipe(upstream);
+}
+
+export function handlePreviewUpgrade(req: IncomingMessage, socket: Duplex, head: Buffer, url: URL): void {
+  const resolved = resolvePreview(req, url);
+  if (!resolved.ok) {
+    socket.end(`HTTP/1.1 ${resolved.status} ${STATUS_CODES[resolved.status]}\r\nConnection: close\r\n\r\n`);
+    return;
+  }
+  const { target, upstreamPath } = resolved;
+
+  const upstream = connectUpstream(target);
+  upstream.once('connect', () => {
+    const headers = forwardHeaders(req, target);
+    headers.connection = 'Upgrade';
+    headers.upgrade = req.headers.upgrade;
+    const lines = [`${req.method} ${upstreamPath} HTTP/1.1`];
+    for (const [name, value] of Object.entries(headers)) {
+      for (const v of Array.isArray(value) ? value : [value]) if (v !== undefined) lines.push(`${name}: ${v}`);
+    }
+    upstream.write(lines.join('\r\n') + '\r\n\r\n');
+    if (head.length > 0) upstream.write(head);
+    upstream.pipe(socket);
+    socket.pipe(upstream);
+  });
+  upstream.on('error', (err) => {
+    logger.warn('preview', `Upstream upgrade failed`, { taskId: target.taskId, port: target.port, error: String(err) });
+    socket.destroy();
+  });
+  socket.on('error', () => upstream.destroy());
+}
+
+/** The app may listen on 127.0.0.1 or ::1 only, so both are tried */
+function connectUpstream(target: PreviewTarget): Socket {
+  return connect({ host: 'localhost', port: target.port, autoSelectFamily: true });
+}
+
+/**
+ * Match the request to a registered preview and check its token (query param, else cookie).
+ */
+function resolvePreview(req: IncomingMessage, url: URL): Resolution {
+  const match = url.pathname.match(PREVIEW_PATH);
+  const target = match ? getPreview(decodeURIComponent(match[1])) : undefined;
+  if (!match || !target) return { ok: false, status: 404, error: 'preview not found' };
+
+  // The app may use a token param of its own, so only ours is consumed
+  const queryToken = url.searchParams.get('token');
+  const fromQuery = !!queryToken && safeEqual(queryToken, target.token);
+  if (!fromQuery && !safeEqual(readCookie(req.headers, COOKIE_NAME) ?? '', target.token)) {
+    return { ok: false, status: 401, error: 'invalid preview token' };
+  }
+
+  const query = new URLSearchParams(url.searchParams);
+  if (fromQuery) query.delete('token');
+  const search = query.toString();
+  return { ok: true, target, upstreamPath: (match[2] ?? '/') + (search ? `?${search}` : ''), fromQuery };
+}
+
+function forwardHeaders(req: IncomingMessage, target: PreviewTarget): IncomingHttpHeaders {
+  const headers: IncomingHttpHeaders = {};
+  for (const [name, value] of Object.entries(req.headers)) {
+    if (!HOP_BY_HOP.includes(name)) headers[name] = value;
+  }
+  // Dev servers commonly reject unknown Host headers
+  headers.host = `localhost:${target.port}`;
+  headers['x-forwarded-host'] = req.headers.host;
+  headers['x-forwarded-prefix'] = previewPath(target.taskId).slice(0, -1);
+  delete headers.authorization;
+  const cookie = req.headers.cookie?.split(';').map((c) => c.trim()).filter((c) => !c.startsWith(`${COOKIE_NAME}=`)).join('; ');
+  if (cookie) headers.cookie = cookie;
+  else delete headers.cookie;
+  return headers;
+}
+
+function readCookie(headers: IncomingHttpHeaders, name: string): string | undefined {
+  for (const part of headers.cookie?.split(';') ?? []) {
+    const [key, ...rest] = part.trim().split('=');
+    if (key === name) return rest.join('=');
+  }
+  return undefined;
+}
+
+function safeEqual(a: string, b: string): boolean {
+  const bufA = Buffer.from(a);
+  const bufB = Buffer.from(b);
+  return bufA.length === bufB.length && timingSafeEqual(bufA, bufB);
+}
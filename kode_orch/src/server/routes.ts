@@ -1,25 +1,45 @@
 import type { IncomingMessage, ServerResponse } from 'node:http';
-import type { Agent, Store } from '@shareai-lab/kode-sdk';
+import type { Store } from '@shareai-lab/kode-sdk';
 import { SSEManager, type SSEEvent } from './sse.js';
 import { parseCommand } from '../commands/parser.js';
-import { ApprovalManager } from '../orchestrator/approval.js';
+import { ApprovalManager, type DecideOutcome, type PendingApprovalInfo } from '../orchestrator/approval.js';
 import { TaskManager } from '../orchestrator/task-manager.js';
 import { ProgressTracker } from '../orchestrator/progress-tracker.js';
-import { MemoryManager } from '../memory/memory-manager.js';
+import { MemoryManager, VectorStoreUnavailableError } from '../memory/memory-manager.js';
+import type { VectorDocument } from '../memory/vector-store.js';
+import { InvalidCursorError, type TaskHistory, type Task } from '../memory/task-history.js';
 import type { BgTaskRunner } from '../orchestrator/bg-task-runner.js';
-import type { ChatLock } from '../orchestrator/chat-lock.js';
+import { SessionArchivedError, SessionNotFoundError, type SessionManager } from '../orchestrator/session-manager.js';
+import type { IntentRouter } from '../orchestrator/intent.js';
+import type { SandboxPool } from '../sandbox/pool.js';
+import type { ArtifactStore } from '../memory/artifact-store.js';
+import { createZip } from '../utils/zip.js';
+import { isUserRole, type UserRole, type UserStore } from '../memory/user-store.js';
+import { hasRole, type AuthUser } from './auth.js';
+import type { PolicyEngine } from '../orchestrator/policy.js';
+import { analyzeCommandInput, extractCommand } from '../orchestrator/safe-commands.js';
+import { AUDIT_SOURCES, type ApprovalAuditEntry, type ApprovalAuditStore, type AuditSource } from '../memory/approval-audit-store.js';
+import { GRANT_SCOPES, type ApprovalGrant, type ApprovalGrantStore, type GrantScope } from '../memory/approval-grant-store.js';
 import { logger } from '../utils/logger.js';
 
 export interface RouteContext {
-  agent: Agent;
+  user: AuthUser;               // authenticated caller, set per request
+  userStore: UserStore;
+  policyEngine: PolicyEngine;
+  sessionManager: SessionManager;
   sdkStore: Store;
   sseManager: SSEManager;
   approvalManager: ApprovalManager;
+  grantStore: ApprovalGrantStore;
+  auditStore: ApprovalAuditStore;
   taskManager: TaskManager;
   progressTracker: ProgressTracker;
   memoryManager: MemoryManager;
+  taskHistory: TaskHistory;
   bgTaskRunner: BgTaskRunner;
-  chatLock: ChatLock;
+  sandboxPool?: SandboxPool;
+  artifactStore: ArtifactStore;
+  intentRouter?: IntentRouter;
 }
 
 function readBody(req: IncomingMessage): Promise<string> {
@@ -36,6 +56,28 @@ function jsonResponse(res: ServerResponse, status: number, data: unknown): void
   res.end(JSON.stringify(data));
 }
 
+/**
+ * Role check for the current request; responds 403 when the caller lacks the role.
+ */
+function requireRole(res: ServerResponse, ctx: RouteContext, role: UserRole): boolean {
+  if (hasRole(ctx.user, role)) return true;
+  jsonResponse(res, 403, { error: `${role} role required` });
+  return false;
+}
+
+/** Approvers act on every user's approvals; others only see their own */
+function visibleApprovals(ctx: RouteContext) {
+  return ctx.approvalManager.getPending(hasRole(ctx.user, 'approver') ? undefined : ctx.user.id);
+}
+
+const DECIDE_STATUS: Record<DecideOutcome, number> = {
+  decided: 200,
+  awaiting_approval: 202,
+  duplicate: 409,
+  self_approval: 403,
+  not_found: 404,
+};
+
 export async function handleChat(req: IncomingMessage, res: ServerResponse, ctx: RouteContext): Promise<void> {
   const body = JSON.parse(await readBody(req));
   const message = body.message as string;
@@ -49,6 +91,17 @@ export async function handleChat(req: IncomingMessage, res: ServerResponse, ctx:
   if (cmd) {
     return handleCommandInternal(cmd.type, cmd.args, res, ctx);
   }
+  if (!requireRole(res, ctx, 'operator')) return;
+
+  // Resolve the session before switching to SSE so errors get a proper status code
+  let runtime;
+  try {
+    runtime = await ctx.sessionManager.getRuntime(ctx.user.id, body.sessionId || undefined);
+  } catch (err) {
+    sessionError(res, err);
+    return;
+  }
+  const { session, agent, chatLock } = runtime;
 
   // Set up SSE for this response
   res.writeHead(200, {
@@ -64,21 +117,55 @@ export async function handleChat(req: IncomingMessage, res: ServerResponse, ctx:
     }
   };
 
+  let locked = false;
   try {
-    // Acquire ChatLock to prevent concurrent chatStream access
-    await ctx.chatLock.acquire();
+    // Pre-routing (cheap model call, runs before taking the lock).
+    // Fast-path replies are recorded so the orchestrator sees them on its next turn.
+    const { injectionQueue } = runtime;
+    if (ctx.intentRouter) {
+      const intent = await ctx.intentRouter.classify(message);
+      const decision = ctx.intentRouter.decide(intent);
+      sendEvent({ type: 'routing', data: { ...intent, decision } });
+      logger.info('routes', 'Routing decision', { decision, category: intent.category, agentType: intent.agentType, confidence: intent.confidence });
+
+      if (decision === 'direct') {
+        injectionQueue.recordSideExchange('user', message);
+        const taskId = ctx.bgTaskRunner.start(intent.agentType, message, message.slice(0, 50), { sessionId: session.id, userId: ctx.user.id });
+        const reply = `已直接派发给 ${intent.agentType}（任务 ID: ${taskId}），完成后会自动汇报结果。`;
+        injectionQueue.recordSideExchange('assistant', reply);
+        sendEvent({ type: 'text', data: { delta: reply } });
+        sendEvent({ type: 'done', data: { reason: 'dispatched' } });
+        return;
+      }
+      if (decision === 'chat') {
+        const memory = await ctx.memoryManager.recall(ctx.user.id, message);
+        const reply = await ctx.intentRouter.answer(message, ctx.memoryManager.formatContext(memory));
+        if (reply) {
+          injectionQueue.recordSideExchange('user', message);
+          injectionQueue.recordSideExchange('assistant', reply);
+          sendEvent({ type: 'text', data: { delta: reply } });
+          sendEvent({ type: 'done', data: { reason: 'answered' } });
+          return;
+        }
+      }
+    }
+
+    // Acquire the session's ChatLock to prevent concurrent chatStream access
+    await chatLock.acquire();
+    locked = true;
+    ctx.sessionManager.touch(runtime);
 
     // Recall memory context
-    const memory = await ctx.memoryManager.recall(message);
+    const memory = await ctx.memoryManager.recall(ctx.user.id, message);
     const memoryContext = ctx.memoryManager.formatContext(memory);
 
     // Inject memory into message
-    const enrichedMessage = memoryContext
+    const enrichedMessage = injectionQueue.takeSideExchanges() + (memoryContext
       ? `${message}\n\n[系统注入的上下文]\n${memoryContext}`
-      : message;
+      : message);
 
     // Stream response (chatStream sends input + yields events + ends on completion)
-    for await (const envelope of ctx.agent.chatStream(enrichedMessage)) {
+    for await (const envelope of agent.chatStream(enrichedMessage)) {
       const event = envelope.event;
       const call = (event as any).call;
       switch (event.type) {
@@ -129,7 +216,7 @@ export async function handleChat(req: IncomingMessage, res: ServerResponse, ctx:
     logger.error('routes', 'Chat error', err);
     sendEvent({ type: 'error', data: { message: String(err) } });
   } finally {
-    ctx.chatLock.release();
+    if (locked) chatLock.release();
     if (!res.destroyed) res.end();
   }
 }
@@ -144,9 +231,10 @@ function handleCommandInternal(
     case 'confirm': {
       const permissionId = args[0];
       if (!permissionId) { jsonResponse(res, 400, { error: 'permissionId required' }); return; }
-      ctx.approvalManager.decide(permissionId, 'allow').then((ok) => {
-        if (!ok) { jsonResponse(res, 404, { error: 'no pending approval' }); return; }
-        jsonResponse(res, 200, { status: 'confirmed', permissionId });
+      if (!requireRole(res, ctx, 'approver')) return;
+      ctx.approvalManager.decide(permissionId, 'allow', ctx.user).then((outcome) => {
+        if (outcome === 'not_found') { jsonResponse(res, 404, { error: 'no pending approval' }); return; }
+        jsonResponse(res, DECIDE_STATUS[outcome], { status: outcome === 'decided' ? 'confirmed' : outcome, permissionId });
       }).catch(() => {
         jsonResponse(res, 500, { error: 'decide failed' });
       });
@@ -155,24 +243,66 @@ function handleCommandInternal(
     case 'cancel': {
       const permissionId = args[0];
       if (!permissionId) { jsonResponse(res, 400, { error: 'permissionId required' }); return; }
-      ctx.approvalManager.decide(permissionId, 'deny').then((ok) => {
-        jsonResponse(res, 200, { status: ok ? 'denied' : 'not_found', permissionId });
+      if (!requireRole(res, ctx, 'approver')) return;
+      ctx.approvalManager.decide(permissionId, 'deny', ctx.user).then((outcome) => {
+        jsonResponse(res, 200, { status: outcome === 'decided' ? 'denied' : outcome, permissionId });
       }).catch(() => {
         jsonResponse(res, 500, { error: 'decide failed' });
       });
       break;
     }
     case 'status': {
-      const active = ctx.taskManager.getActiveTasks();
-      const progress = ctx.progressTracker.getAll();
-      const pending = ctx.approvalManager.getPending();
+      const active = ctx.taskManager.getActiveTasks(ctx.user.id);
+      const progress = ctx.progressTracker.getAll(ctx.user.id);
+      const pending = visibleApprovals(ctx);
       jsonResponse(res, 200, { activeTasks: active, progress, pendingApprovals: pending });
       break;
     }
     case 'history': {
       const limit = parseInt(args[0] || '10', 10);
-      // TaskHistory accessed via TaskManager is indirect; use memoryManager for now
-      jsonResponse(res, 200, { message: 'history endpoint', limit });
+      if (!Number.isFinite(limit) || limit <= 0) { jsonResponse(res, 400, { error: 'n must be a positive number' }); return; }
+      ctx.taskHistory.getRecent(ctx.user.id, Math.min(limit, 100)).then((tasks) => {
+        jsonResponse(res, 200, { tasks });
+      }).catch((err) => {
+        logger.error('routes', 'Failed to load task history', err);
+        jsonResponse(res, 500, { error: 'Failed to load task history' });
+      });
+      break;
+    }
+    case 'remember': {
+      const content = args.join(' ');
+      if (!content) { jsonResponse(res, 400, { error: 'content required' }); return; }
+      if (!requireRole(res, ctx, 'operator')) return;
+      ctx.memoryManager.remember(ctx.user.id, content).then((document) => {
+        jsonResponse(res, 200, { status: 'remembered', document });
+      }).catch((err) => memoryError(res, err));
+      break;
+    }
+    case 'forget': {
+      if (args.length === 0) { jsonResponse(res, 400, { error: 'memory id required' }); return; }
+      if (!requireRole(res, ctx, 'operator')) return;
+      ctx.memoryManager.forget(ctx.user.id, args).then((deleted) => {
+        jsonResponse(res, 200, { status: 'forgotten', deleted });
+      }).catch((err) => memoryError(res, err));
+      break;
+    }
+    case 'prefs': {
+      const [action, key, ...value] = args;
+      const profile = ctx.memoryManager.userProfile;
+      const userId = ctx.user.id;
+      let op: Promise<unknown>;
+      if (action && !requireRole(res, ctx, 'operator')) return;
+      if (!action) {
+        op = profile.getAll(userId).then((preferences) => jsonResponse(res, 200, { preferences }));
+      } else if (action === 'set' && key && value.length > 0) {
+        op = profile.set(userId, key, value.join(' ')).then(() => jsonResponse(res, 200, { status: 'updated', key }));
+      } else if (action === 'unset' && key) {
+        op = profile.delete(userId, key).then((ok) => jsonResponse(res, ok ? 200 : 404, ok ? { status: 'deleted', key } : { error: 'preference not found' }));
+      } else {
+        jsonResponse(res, 400, { error: 'usage: /prefs | /prefs set <key> <value> | /prefs unset <key>' });
+        return;
+      }
+      op.catch((err) => memoryError(res, err));
       break;
     }
     case 'help':
@@ -182,6 +312,9 @@ function handleCommandInternal(
           '/cancel <taskId> - 取消任务',
           '/status - 查看当前任务状态',
           '/history [n] - 查看最近 n 条历史',
+          '/remember <内容> - 记住一条信息（每次对话都会带上）',
+          '/forget <memoryId...> - 删除指定记忆',
+          '/prefs [set <key> <value> | unset <key>] - 查看或修改用户偏好',
           '/help - 显示帮助',
         ],
       });
@@ -201,15 +334,21 @@ export async function handleCommand(req: IncomingMessage, res: ServerResponse, c
 }
 
 export function handleStatus(_req: IncomingMessage, res: ServerResponse, ctx: RouteContext): void {
-  const active = ctx.taskManager.getActiveTasks();
-  const progress = ctx.progressTracker.getAll();
-  const pending = ctx.approvalManager.getPending();
+  const active = ctx.taskManager.getActiveTasks(ctx.user.id);
+  const progress = ctx.progressTracker.getAll(ctx.user.id);
+  const pending = visibleApprovals(ctx);
   jsonResponse(res, 200, { activeTasks: active, progress, pendingApprovals: pending });
 }
 
-export async function handleHistory(_req: IncomingMessage, res: ServerResponse, ctx: RouteContext): Promise<void> {
+export async function handleHistory(req: IncomingMessage, res: ServerResponse, ctx: RouteContext): Promise<void> {
   try {
-    const messages = await ctx.sdkStore.loadMessages(ctx.agent.agentId);
+    const sessionId = new URL(req.url || '/', 'http://localhost').searchParams.get('sessionId') || undefined;
+    // History stays readable for archived and evicted sessions, so read the store directly
+    const session = sessionId
+      ? await ctx.sessionManager.get(ctx.user.id, sessionId)
+      : (await ctx.sessionManager.getRuntime(ctx.user.id)).session;
+    if (!session) { jsonResponse(res, 404, { error: 'session not found' }); return; }
+    const messages = await ctx.sdkStore.loadMessages(session.agentId);
     // 只返回 user 和 assistant 的文本消息
     const history = messages
       .filter((m: any) => m.role === 'user' || m.role === 'assistant')
@@ -225,15 +364,397 @@ export async function handleHistory(_req: IncomingMessage, res: ServerResponse,
         }
         return { role: m.role, content: text };
       })
-      .filter((m: any) => m.content);
-    jsonResponse(res, 200, { history });
+      .filter((m: any) => m.content)
+      .concat(ctx.sessionManager.pendingSideExchanges(session.id));
+    jsonResponse(res, 200, { sessionId: session.id, history });
   } catch (err) {
     logger.error('routes', 'Failed to load history', err);
     jsonResponse(res, 500, { error: 'Failed to load history' });
   }
 }
 
+const TASK_STATUSES: Task['status'][] = ['pending', 'running', 'waiting_approval', 'completed', 'failed', 'cancelled'];
+
+function parseTime(value: string | null): number | undefined | null {
+  if (value === null || value === '') return undefined;
+  const time = /^\d+$/.test(value) ? Number(value) : Date.parse(value);
+  return Number.isFinite(time) ? time : null;
+}
+
+/**
+ * GET /api/tasks/history?status=a,b&agentType=&from=&to=&q=&cursor=&limit=
+ * from/to accept epoch ms or ISO dates.
+ */
+export async function handleTaskHistory(req: IncomingMessage, res: ServerResponse, ctx: RouteContext): Promise<void> {
+  const params = new URL(req.url || '/', 'http://localhost').searchParams;
+
+  const status = params.get('status')?.split(',').filter(Boolean) as Task['status'][] | undefined;
+  if (status?.some((s) => !TASK_STATUSES.includes(s))) {
+    jsonResponse(res, 400, { error: `status must be one of: ${TASK_STATUSES.join(', ')}` });
+    return;
+  }
+  const from = parseTime(params.get('from'));
+  const to = parseTime(params.get('to'));
+  if (from === null || to === null) {
+    jsonResponse(res, 400, { error: 'from/to must be epoch ms or an ISO date' });
+    return;
+  }
+  const limit = params.get('limit') ? parseInt(params.get('limit')!, 10) : undefined;
+
+  try {
+    const page = await ctx.taskHistory.query({
+      userId: ctx.user.id,
+      status,
+      agentType: params.get('agentType') || undefined,
+      from,
+      to,
+      search: params.get('q') || undefined,
+      cursor: params.get('cursor') || undefined,
+      limit: Number.isFinite(limit) ? limit : undefined,
+    });
+    jsonResponse(res, 200, page);
+  } catch (err) {
+    if (err instanceof InvalidCursorError) {
+      jsonResponse(res, 400, { error: 'invalid cursor' });
+      return;
+    }
+    logger.error('routes', 'Task history query error', err);
+    jsonResponse(res, 500, { error: 'Internal error' });
+  }
+}
+
+function sessionError(res: ServerResponse, err: unknown): void {
+  if (err instanceof SessionNotFoundError) {
+    jsonResponse(res, 404, { error: 'session not found' });
+    return;
+  }
+  if (err instanceof SessionArchivedError) {
+    jsonResponse(res, 409, { error: 'session is archived' });
+    return;
+  }
+  logger.error('routes', 'Session error', err);
+  jsonResponse(res, 500, { error: 'Internal error' });
+}
+
+/**
+ * GET  /api/sessions?archived=true  (archived=true includes archived sessions)
+ * POST /api/sessions  { title? }
+ */
+export async function handleSessions(req: IncomingMessage, res: ServerResponse, ctx: RouteContext): Promise<void> {
+  if (req.method !== 'GET' && !requireRole(res, ctx, 'operator')) return;
+  try {
+    if (req.method === 'GET') {
+      const includeArchived = new URL(req.url || '/', 'http://localhost').searchParams.get('archived') === 'true';
+      jsonResponse(res, 200, { sessions: await ctx.sessionManager.list(ctx.user.id, includeArchived) });
+      return;
+    }
+    const body = JSON.parse((await readBody(req)) || '{}');
+    if (body.title !== undefined && typeof body.title !== 'string') {
+      jsonResponse(res, 400, { error: 'title must be a string' });
+      return;
+    }
+    const session = await ctx.sessionManager.create(ctx.user.id, body.title ?? '');
+    jsonResponse(res, 201, { session });
+  } catch (err) {
+    sessionError(res, err);
+  }
+}
+
+/**
+ * GET    /api/sessions/:id
+ * PATCH  /api/sessions/:id  { title?, archived? }
+ * DELETE /api/sessions/:id
+ */
+export async function handleSession(req: IncomingMessage, res: ServerResponse, ctx: RouteContext, sessionId: string): Promise<void> {
+  if (req.method !== 'GET' && !requireRole(res, ctx, 'operator')) return;
+  try {
+    if (req.method === 'GET') {
+      const session = await ctx.sessionManager.get(ctx.user.id, sessionId);
+      jsonResponse(res, session ? 200 : 404, session ? { session } : { error: 'session not found' });
+    } else if (req.method === 'PATCH') {
+      const body = JSON.parse(await readBody(req));
+      if (body.title !== undefined && typeof body.title !== 'string') {
+        jsonResponse(res, 400, { error: 'title must be a string' });
+        return;
+      }
+      if (body.archived !== undefined && typeof body.archived !== 'boolean') {
+        jsonResponse(res, 400, { error: 'archived must be a boolean' });
+        return;
+      }
+      let session = await ctx.sessionManager.get(ctx.user.id, sessionId);
+      if (session && body.title !== undefined) session = await ctx.sessionManager.rename(ctx.user.id, sessionId, body.title);
+      if (session && body.archived !== undefined) session = await ctx.sessionManager.setArchived(ctx.user.id, sessionId, body.archived);
+      jsonResponse(res, session ? 200 : 404, session ? { session } : { error: 'session not found' });
+    } else {
+      const ok = await ctx.sessionManager.delete(ctx.user.id, sessionId);
+      jsonResponse(res, ok ? 200 : 404, ok ? { status: 'deleted', sessionId } : { error: 'session not found' });
+    }
+  } catch (err) {
+    sessionError(res, err);
+  }
+}
+
+const MEMORY_TYPES: VectorDocument['metadata']['type'][] = ['conversation_summary', 'user_knowledge', 'task_result'];
+
+function memoryError(res: ServerResponse, err: unknown): void {
+  if (err instanceof VectorStoreUnavailableError) {
+    jsonResponse(res, 503, { error: '向量存储未启用，请配置 VECTOR_COLLECTION' });
+    return;
+  }
+  logger.error('routes', 'Memory operation error', err);
+  jsonResponse(res, 500, { error: 'Internal error' });
+}
+
+/**
+ * GET    /api/memory/preferences
+ * PUT    /api/memory/preferences  { preferences: { key: value } }
+ * DELETE /api/memory/preferences?key=
+ */
+export async function handleMemoryPreferences(req: IncomingMessage, res: ServerResponse, ctx: RouteContext): Promise<void> {
+  if (req.method !== 'GET' && !requireRole(res, ctx, 'operator')) return;
+  const profile = ctx.memoryManager.userProfile;
+  const userId = ctx.user.id;
+  try {
+    if (req.method === 'GET') {
+      jsonResponse(res, 200, { preferences: await profile.getAll(userId) });
+    } else if (req.method === 'PUT') {
+      const body = JSON.parse(await readBody(req));
+      const prefs = body.preferences;
+      if (!prefs || typeof prefs !== 'object' || Object.values(prefs).some((v) => typeof v !== 'string')) {
+        jsonResponse(res, 400, { error: 'preferences must be an object of string values' });
+        return;
+      }
+      for (const [key, value] of Object.entries(prefs as Record<string, string>)) {
+        await profile.set(userId, key, value);
+      }
+      jsonResponse(res, 200, { preferences: await profile.getAll(userId) });
+    } else {
+      const key = new URL(req.url || '/', 'http://localhost').searchParams.get('key');
+      if (!key) { jsonResponse(res, 400, { error: 'key required' }); return; }
+      const ok = await profile.delete(userId, key);
+      jsonResponse(res, ok ? 200 : 404, ok ? { status: 'deleted', key } : { error: 'preference not found' });
+    }
+  } catch (err) {
+    memoryError(res, err);
+  }
+}
+
+/**
+ * GET    /api/memory/documents?type=&tag=&limit=&offset=
+ * POST   /api/memory/documents  { content, type?, tags? }
+ * DELETE /api/memory/documents?id=a,b
+ */
+export async function handleMemoryDocuments(req: IncomingMessage, res: ServerResponse, ctx: RouteContext): Promise<void> {
+  if (req.method !== 'GET' && !requireRole(res, ctx, 'operator')) return;
+  const params = new URL(req.url || '/', 'http://localhost').searchParams;
+  try {
+    if (req.method === 'GET') {
+      const type = params.get('type') as VectorDocument['metadata']['type'] | null;
+      if (type && !MEMORY_TYPES.includes(type)) {
+        jsonResponse(res, 400, { error: `type must be one of: ${MEMORY_TYPES.join(', ')}` });
+        return;
+      }
+      const limit = parseInt(params.get('limit') || '50', 10);
+      const offset = parseInt(params.get('offset') || '0', 10);
+      const documents = await ctx.memoryManager.listDocuments(ctx.user.id, {
+        type: type ?? undefined,
+        tag: params.get('tag') || undefined,
+        limit: Number.isFinite(limit) ? Math.min(Math.max(limit, 1), 200) : 50,
+        offset: Number.isFinite(offset) ? Math.max(offset, 0) : 0,
+      });
+      jsonResponse(res, 200, { documents });
+    } else if (req.method === 'POST') {
+      const body = JSON.parse(await readBody(req));
+      const { content, type = 'user_knowledge', tags } = body;
+      if (!content || typeof content !== 'string') { jsonResponse(res, 400, { error: 'content required' }); return; }
+      if (!MEMORY_TYPES.includes(type)) {
+        jsonResponse(res, 400, { error: `type must be one of: ${MEMORY_TYPES.join(', ')}` });
+        return;
+      }
+      if (tags !== undefined && (!Array.isArray(tags) || tags.some((t) => typeof t !== 'string' || t.includes(',')))) {
+        jsonResponse(res, 400, { error: 'tags must be an array of strings without commas' });
+        return;
+      }
+      const document = await ctx.memoryManager.addDocument(ctx.user.id, content, type, tags);
+      jsonResponse(res, 201, { document });
+    } else {
+      const ids = params.get('id')?.split(',').filter(Boolean) ?? [];
+      if (ids.length === 0) { jsonResponse(res, 400, { error: 'id required' }); return; }
+      const deleted = await ctx.memoryManager.forget(ctx.user.id, ids);
+      jsonResponse(res, 200, { deleted });
+    }
+  } catch (err) {
+    memoryError(res, err);
+  }
+}
+
+export function handleMe(_req: IncomingMessage, res: ServerResponse, ctx: RouteContext): void {
+  jsonResponse(res, 200, { user: ctx.user });
+}
+
+function requireAdmin(res: ServerResponse, ctx: RouteContext): boolean {
+  if (ctx.user.isAdmin) return true;
+  jsonResponse(res, 403, { error: 'admin token required' });
+  return false;
+}
+
+/**
+ * Admin only.
+ * GET  /api/users
+ * POST /api/users  { name, role? }  → { user, token } (token is shown once)
+ */
+export async function handleUsers(req: IncomingMessage, res: ServerResponse, ctx: RouteContext): Promise<void> {
+  if (!requireAdmin(res, ctx)) return;
+  try {
+    if (req.method === 'GET') {
+      jsonResponse(res, 200, { users: await ctx.userStore.listUsers() });
+      return;
+    }
+    const body = JSON.parse(await readBody(req));
+    if (!body.name || typeof body.name !== 'string') { jsonResponse(res, 400, { error: 'name required' }); return; }
+    if (body.role !== undefined && !isUserRole(body.role)) { jsonResponse(res, 400, { error: 'role must be viewer, operator or approver' }); return; }
+    const user = await ctx.userStore.createUser(body.name, body.role);
+    const { token } = await ctx.userStore.issueToken(user.id, 'initial');
+    jsonResponse(res, 201, { user, token });
+  } catch (err) {
+    logger.error('routes', 'User management error', err);
+    jsonResponse(res, 500, { error: 'Internal error' });
+  }
+}
+
+/**
+ * Admin only.
+ * PATCH /api/users/:id  { role }
+ */
+export async function handleUser(req: IncomingMessage, res: ServerResponse, ctx: RouteContext, userId: string): Promise<void> {
+  if (!requireAdmin(res, ctx)) return;
+  try {
+    const body = JSON.parse(await readBody(req));
+    if (!isUserRole(body.role)) { jsonResponse(res, 400, { error: 'role must be viewer, operator or approver' }); return; }
+    const user = await ctx.userStore.setRole(userId, body.role);
+    jsonResponse(res, user ? 200 : 404, user ? { user } : { error: 'user not found' });
+  } catch (err) {
+    logger.error('routes', 'User management error', err);
+    jsonResponse(res, 500, { error: 'Internal error' });
+  }
+}
+
+/**
+ * Admin only.
+ * GET    /api/users/:id/tokens
+ * POST   /api/users/:id/tokens  { label? }  → { token, info }
+ * DELETE /api/users/:id/tokens/:tokenId
+ */
+export async function handleUserTokens(
+  req: IncomingMessage,
+  res: ServerResponse,
+  ctx: RouteContext,
+  userId: string,
+  tokenId?: string,
+): Promise<void> {
+  if (!requireAdmin(res, ctx)) return;
+  try {
+    if (!await ctx.userStore.getUser(userId)) { jsonResponse(res, 404, { error: 'user not found' }); return; }
+    if (req.method === 'GET') {
+      jsonResponse(res, 200, { tokens: await ctx.userStore.listTokens(userId) });
+    } else if (req.method === 'POST') {
+      const body = JSON.parse((await readBody(req)) || '{}');
+      if (body.label !== undefined && typeof body.label !== 'string') {
+        jsonResponse(res, 400, { error: 'label must be a string' });
+        return;
+      }
+      jsonResponse(res, 201, await ctx.userStore.issueToken(userId, body.label ?? ''));
+    } else {
+      const ok = tokenId ? await ctx.userStore.revokeToken(userId, tokenId) : false;
+      jsonResponse(res, ok ? 200 : 404, ok ? { status: 'revoked', tokenId } : { error: 'token not found' });
+    }
+  } catch (err) {
+    logger.error('routes', 'Token management error', err);
+    jsonResponse(res, 500, { error: 'Internal error' });
+  }
+}
+
+/**
+ * GET /api/policy  (active rules and where they came from)
+ */
+export function handlePolicy(_req: IncomingMessage, res: ServerResponse, ctx: RouteContext): void {
+  jsonResponse(res, 200, ctx.policyEngine.describe());
+}
+
+/**
+ * POST /api/policy/dry-run  { toolName, input?, templateId?, skills?, sandboxKind? }
+ * Evaluates a hypothetical tool call without running anything.
+ * bash_run calls also get the per-command safety analysis.
+ */
+export async function handlePolicyDryRun(req: IncomingMessage, res: ServerResponse, ctx: RouteContext): Promise<void> {
+  try {
+    const body = JSON.parse(await readBody(req));
+    const { toolName, input, templateId, skills, sandboxKind } = body;
+    if (!toolName || typeof toolName !== 'string') { jsonResponse(res, 400, { error: 'toolName required' }); return; }
+    if (skills !== undefined && (!Array.isArray(skills) || skills.some((s) => typeof s !== 'string'))) {
+      jsonResponse(res, 400, { error: 'skills must be an array of strings' });
+      return;
+    }
+    const decision = ctx.policyEngine.evaluate({ toolName, input, templateId, skills, sandboxKind });
+    const commandAnalysis = toolName === 'bash_run' ? analyzeCommandInput(input) : undefined;
+    jsonResponse(res, 200, { decision, commandAnalysis });
+  } catch (err) {
+    if (err instanceof SyntaxError) {
+      jsonResponse(res, 400, { error: 'invalid JSON body' });
+      return;
+    }
+    logger.error('routes', 'Policy dry-run error', err);
+    jsonResponse(res, 500, { error: 'Internal error' });
+  }
+}
+
+const MAX_TEMPLATE_GRANT_MINUTES = 24 * 60;
+
+/**
+ * Turns the optional `grant` of an allow decision into the grant to persist,
+ * or an error message. `once` (the default) records nothing.
+ */
+function buildGrant(
+  raw: unknown,
+  approval: PendingApprovalInfo,
+  ctx: RouteContext,
+): Omit<ApprovalGrant, 'id' | 'createdAt' | 'revokedAt'> | string | undefined {
+  if (raw === undefined || raw === null) return undefined;
+  const { scope, pattern, minutes } = raw as { scope?: unknown; pattern?: unknown; minutes?: unknown };
+  if (scope === 'once') return undefined;
+  if (!GRANT_SCOPES.includes(scope as GrantScope)) return `grant.scope must be one of once, ${GRANT_SCOPES.join(', ')}`;
+  if (approval.requiredApprovals > 1) return 'two-person tools cannot be granted';
+
+  const base = { userId: approval.userId, toolName: approval.toolName, scope: scope as GrantScope, createdBy: ctx.user.id };
+  if (scope === 'template') {
+    if (typeof minutes !== 'number' || !Number.isInteger(minutes) || minutes <= 0 || minutes > MAX_TEMPLATE_GRANT_MINUTES) {
+      return `grant.minutes must be an integer between 1 and ${MAX_TEMPLATE_GRANT_MINUTES}`;
+    }
+    const templateId = ctx.bgTaskRunner.getTask(approval.taskId)?.templateId;
+    if (!templateId) return 'task not found';
+    return { ...base, templateId, expiresAt: Date.now() + minutes * 60_000 };
+  }
+
+  const command = approval.toolName === 'bash_run' ? extractCommand(approval.inputPreview) : null;
+  if (command === null) return `grant.scope ${scope} is only available for bash_run`;
+  if (scope === 'command') return { ...base, command };
+
+  if (typeof pattern !== 'string' || !pattern) return 'grant.pattern required';
+  try {
+    if (!new RegExp(pattern).test(command)) return 'grant.pattern does not match the current command';
+  } catch {
+    return 'grant.pattern is not a valid regex';
+  }
+  return { ...base, taskId: approval.taskId, pattern };
+}
+
+/**
+ * POST /api/approval  { permissionId, decision, note?, grant? }  (approver role)
+ * grant: { scope: 'once' | 'command' | 'pattern', pattern? } | { scope: 'template', minutes }
+ * Two-person tools answer 202 until a second approver allows.
+ */
 export async function handleApproval(req: IncomingMessage, res: ServerResponse, ctx: RouteContext): Promise<void> {
+  if (!requireRole(res, ctx, 'approver')) return;
   try {
     const body = JSON.parse(await readBody(req));
     const { permissionId, decision, note } = body;
@@ -241,19 +762,139 @@ export async function handleApproval(req: IncomingMessage, res: ServerResponse,
       jsonResponse(res, 400, { error: 'permissionId and decision (allow|deny) required' });
       return;
     }
-    const ok = await ctx.approvalManager.decide(permissionId, decision, note);
-    jsonResponse(res, ok ? 200 : 404, ok ? { status: 'decided', decision } : { error: 'approval not found' });
+    const approval = ctx.approvalManager.get(permissionId);
+    if (!approval) { jsonResponse(res, 404, { error: 'approval not found' }); return; }
+    const grantSpec = decision === 'allow' ? buildGrant(body.grant, approval, ctx) : undefined;
+    if (typeof grantSpec === 'string') { jsonResponse(res, 400, { error: grantSpec }); return; }
+
+    const outcome = await ctx.approvalManager.decide(permissionId, decision, ctx.user, note);
+    const grant = outcome === 'decided' && grantSpec ? await ctx.grantStore.create(grantSpec) : undefined;
+    jsonResponse(res, DECIDE_STATUS[outcome], outcome === 'not_found'
+      ? { error: 'approval not found' }
+      : outcome === 'duplicate'
+        ? { error: 'already approved by this user' }
+        : outcome === 'self_approval'
+          ? { error: 'the task owner cannot approve a two-person tool' }
+          : { status: outcome, decision, grant });
   } catch (err) {
     logger.error('routes', 'Approval error', err);
     jsonResponse(res, 500, { error: 'Internal error' });
   }
 }
 
+/**
+ * GET /api/approval/:permissionId/diff — untruncated diff of a pending fs_write / fs_edit approval
+ */
+export function handleApprovalDiff(req: IncomingMessage, res: ServerResponse, ctx: RouteContext, permissionId: string): void {
+  const approval = ctx.approvalManager.get(permissionId);
+  if (!approval || (approval.userId !== ctx.user.id && !hasRole(ctx.user, 'approver'))) {
+    jsonResponse(res, 404, { error: 'approval not found' });
+    return;
+  }
+  if (!approval.diff) { jsonResponse(res, 404, { error: 'no diff for this approval' }); return; }
+  jsonResponse(res, 200, { permissionId, toolName: approval.toolName, diff: approval.diff });
+}
+
+/**
+ * GET /api/approval/grants — active grants (approvers see every user's)
+ */
+export async function handleApprovalGrants(req: IncomingMessage, res: ServerResponse, ctx: RouteContext): Promise<void> {
+  try {
+    const grants = await ctx.grantStore.listActive(hasRole(ctx.user, 'approver') ? undefined : ctx.user.id);
+    jsonResponse(res, 200, { grants });
+  } catch (err) {
+    logger.error('routes', 'Approval grants error', err);
+    jsonResponse(res, 500, { error: 'Internal error' });
+  }
+}
+
+/**
+ * DELETE /api/approval/grants/:id — approvers, or operators for grants on their own tasks
+ */
+export async function handleApprovalGrant(req: IncomingMessage, res: ServerResponse, ctx: RouteContext, grantId: string): Promise<void> {
+  if (!requireRole(res, ctx, 'operator')) return;
+  try {
+    const grant = await ctx.grantStore.get(grantId);
+    if (!grant || (grant.userId !== ctx.user.id && !hasRole(ctx.user, 'approver'))) {
+      jsonResponse(res, 404, { error: 'grant not found' });
+      return;
+    }
+    const revoked = await ctx.grantStore.revoke(grantId);
+    jsonResponse(res, revoked ? 200 : 404, revoked ? { status: 'revoked' } : { error: 'grant not found' });
+  } catch (err) {
+    logger.error('routes', 'Revoke grant error', err);
+    jsonResponse(res, 500, { error: 'Internal error' });
+  }
+}
+
+const AUDIT_COLUMNS: Array<keyof ApprovalAuditEntry> = [
+  'decidedAt', 'taskId', 'userId', 'permissionId', 'toolName', 'source', 'decision', 'final',
+  'deciderId', 'deciderName', 'latencyMs', 'policyAction', 'policyRule', 'policyReason', 'autoReason', 'note', 'input',
+];
+
+function csvCell(value: unknown): string {
+  if (value === undefined || value === null) return '';
+  const text = typeof value === 'object' ? JSON.stringify(value) : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * GET /api/approvals/audit?taskId=&toolName=&decision=&source=&decider=&userId=&from=&to=&limit=&format=json|csv|jsonl
+ * Approvers see every user's entries (optionally filtered by userId); others only their own tasks.
+ */
+export async function handleApprovalAudit(req: IncomingMessage, res: ServerResponse, ctx: RouteContext): Promise<void> {
+  const params = new URL(req.url || '/', 'http://localhost').searchParams;
+  const format = params.get('format') || 'json';
+  if (!['json', 'csv', 'jsonl'].includes(format)) { jsonResponse(res, 400, { error: 'format must be json, csv or jsonl' }); return; }
+  const decision = params.get('decision') || undefined;
+  if (decision && decision !== 'allow' && decision !== 'deny') { jsonResponse(res, 400, { error: 'decision must be allow or deny' }); return; }
+  const source = params.get('source') || undefined;
+  if (source && !AUDIT_SOURCES.includes(source as AuditSource)) {
+    jsonResponse(res, 400, { error: `source must be one of: ${AUDIT_SOURCES.join(', ')}` });
+    return;
+  }
+  const from = parseTime(params.get('from'));
+  const to = parseTime(params.get('to'));
+  if (from === null || to === null) { jsonResponse(res, 400, { error: 'from/to must be epoch ms or an ISO date' }); return; }
+  const limit = params.get('limit') ? parseInt(params.get('limit')!, 10) : undefined;
+
+  try {
+    const entries = await ctx.auditStore.query({
+      userId: hasRole(ctx.user, 'approver') ? params.get('userId') || undefined : ctx.user.id,
+      taskId: params.get('taskId') || undefined,
+      toolName: params.get('toolName') || undefined,
+      decision: decision as 'allow' | 'deny' | undefined,
+      source: source as AuditSource | undefined,
+      deciderId: params.get('decider') || undefined,
+      from,
+      to,
+      limit: Number.isFinite(limit) ? limit : undefined,
+    });
+
+    if (format === 'json') { jsonResponse(res, 200, { entries }); return; }
+    const filename = `approval-audit-${new Date().toISOString().slice(0, 10)}.${format}`;
+    const body = format === 'csv'
+      ? [AUDIT_COLUMNS.join(','), ...entries.map((e) => AUDIT_COLUMNS.map((c) => csvCell(e[c])).join(','))].join('\r\n')
+      : entries.map((e) => JSON.stringify(e)).join('\n');
+    res.writeHead(200, {
+      'Content-Type': format === 'csv' ? 'text/csv; charset=utf-8' : 'application/x-ndjson; charset=utf-8',
+      'Content-Disposition': `attachment; filename="${filename}"`,
+      'Access-Control-Allow-Origin': '*',
+    });
+    res.end(body ? `${body}\n` : '');
+  } catch (err) {
+    logger.error('routes', 'Approval audit query error', err);
+    jsonResponse(res, 500, { error: 'Internal error' });
+  }
+}
+
 export async function handleSandboxDispose(req: IncomingMessage, res: ServerResponse, ctx: RouteContext): Promise<void> {
+  if (!requireRole(res, ctx, 'operator')) return;
   try {
     const body = JSON.parse(await readBody(req));
     const { taskId } = body;
     if (!taskId) { jsonResponse(res, 400, { error: 'taskId required' }); return; }
+    if (ctx.bgTaskRunner.getTask(taskId)?.userId !== ctx.user.id) { jsonResponse(res, 404, { error: 'no active sandbox' }); return; }
     const ok = await ctx.bgTaskRunner.disposeSandbox(taskId);
     jsonResponse(res, ok ? 200 : 404, ok ? { status: 'disposed' } : { error: 'no active sandbox' });
   } catch (err) {
@@ -262,9 +903,70 @@ export async function handleSandboxDispose(req: IncomingMessage, res: ServerResp
   }
 }
 
+/**
+ * GET /api/sandbox/pool  warm sandbox pool metrics
+ */
+export function handleSandboxPool(_req: IncomingMessage, res: ServerResponse, ctx: RouteContext): void {
+  if (!ctx.sandboxPool) { jsonResponse(res, 200, { enabled: false }); return; }
+  jsonResponse(res, 200, { enabled: true, ...ctx.sandboxPool.metrics() });
+}
+
+/**
+ * GET /api/bg-tasks/:id/artifacts               manifest (files with sizes and sha256)
+ * GET /api/bg-tasks/:id/artifacts?path=a/b.txt  one file
+ * GET /api/bg-tasks/:id/artifacts?format=zip    all files as a zip
+ */
+export async function handleBgTaskArtifacts(req: IncomingMessage, res: ServerResponse, ctx: RouteContext, taskId: string): Promise<void> {
+  try {
+    const params = new URL(req.url || '/', 'http://localhost').searchParams;
+    const manifest = await ctx.artifactStore.getManifest(taskId);
+    if (!manifest || manifest.userId !== ctx.user.id) { jsonResponse(res, 404, { error: 'no artifacts for this task' }); return; }
+
+    const path = params.get('path');
+    if (path) {
+      const data = await ctx.artifactStore.readFile(manifest, path);
+      if (!data) { jsonResponse(res, 404, { error: 'artifact not found' }); return; }
+      res.writeHead(200, {
+        'Content-Type': 'application/octet-stream',
+        'Content-Length': data.length,
+        'Content-Disposition': attachment(path.split('/').pop()!),
+        'Access-Control-Allow-Origin': '*',
+      });
+      res.end(data);
+      return;
+    }
+
+    if (params.get('format') === 'zip') {
+      const entries = [];
+      for (const file of manifest.files) {
+        const data = await ctx.artifactStore.readFile(manifest, file.path);
+        if (data) entries.push({ name: file.path, data, mtime: new Date(manifest.collectedAt) });
+      }
+      const zip = createZip(entries);
+      res.writeHead(200, {
+        'Content-Type': 'application/zip',
+        'Content-Length': zip.length,
+        'Content-Disposition': attachment(`task-${taskId}-artifacts.zip`),
+        'Access-Control-Allow-Origin': '*',
+      });
+      res.end(zip);
+      return;
+    }
+
+    jsonResponse(res, 200, manifest);
+  } catch (err) {
+    logger.error('routes', 'Artifacts error', err);
+    jsonResponse(res, 500, { error: 'Internal error' });
+  }
+}
+
+function attachment(filename: string): string {
+  return `attachment; filename="${filename.replace(/[^\w.-]/g, '_')}"; filename*=UTF-8''${encodeURIComponent(filename)}`;
+}
+
 export async function handleBgTasksList(req: IncomingMessage, res: ServerResponse, ctx: RouteContext): Promise<void> {
   try {
-    const tasks = ctx.bgTaskRunner.getAllTasks().map((t) => ({
+    const tasks = ctx.bgTaskRunner.getAllTasks().filter((t) => t.userId === ctx.user.id).map((t) => ({
       taskId: t.id,
       templateId: t.templateId,
       description: t.description,
@@ -275,10 +977,17 @@ export async function handleBgTasksList(req: IncomingMessage, res: ServerRespons
       result: t.result,
       error: t.error,
       cancelReason: t.cancelReason,
+      statusReason: t.statusReason,
       sandboxUrl: t.sandboxUrl,
       sandboxAlive: t.sandboxAlive,
       agentAlive: t.agentAlive,
       resourceUsage: t.resourceUsage,
+      dependsOn: t.dependsOn,
+      workspace: t.workspace,
+      workspaceFrom: t.workspaceFrom,
+      artifactCount: t.artifactCount,
+      parentTaskId: t.parentTaskId,
+      lineage: t.lineage,
     }));
     jsonResponse(res, 200, { tasks });
   } catch (err) {
@@ -287,6 +996,25 @@ export async function handleBgTasksList(req: IncomingMessage, res: ServerRespons
   }
 }
 
+export function handleBgTaskStream(_req: IncomingMessage, res: ServerResponse, ctx: RouteContext, taskId: string): void {
+  const task = ctx.bgTaskRunner.getTask(taskId);
+  if (!task || task.userId !== ctx.user.id) { jsonResponse(res, 404, { error: 'task not found' }); return; }
+  ctx.sseManager.addConnection(res, { taskId, userId: ctx.user.id });
+  // Send current state first so the client doesn't wait for the next transition
+  ctx.sseManager.sendTo(res, {
+    type: 'progress',
+    data: {
+      taskId: task.id,
+      templateId: task.templateId,
+      status: task.status,
+      description: task.description,
+      result: task.result,
+      error: task.error,
+      elapsed: Date.now() - task.startTime,
+    },
+  });
+}
+
 function extractSubAgentId(inputPreview: unknown): string | undefined {
   if (!inputPreview || typeof inputPreview !== 'object') return undefined;
   const preview = inputPreview as Record<string, unknown>;
@@ -3,28 +3,46 @@ import type { ServerResponse } from 'node:http';
 export interface SSEEvent {
   type:
     | 'text' | 'thinking' | 'tool_start' | 'tool_end' | 'tool_error'
-    | 'approval_needed' | 'progress' | 'phase' | 'done' | 'error'
-    | 'orchestrator_start' | 'orchestrator_text' | 'orchestrator_done';
+    | 'approval_needed' | 'approval_decided' | 'approval_reminder' | 'approval_expired' | 'progress' | 'phase' | 'done' | 'error' | 'routing'
+    | 'orchestrator_start' | 'orchestrator_text' | 'orchestrator_done'
+    | 'task_text' | 'task_thinking' | 'task_tool_start' | 'task_tool_end' | 'task_progress';
   data: unknown;
 }
 
+export interface SSEConnectionFilter {
+  /** Only receive events whose data.taskId matches */
+  taskId?: string;
+  /** Drop events tagged with another data.sessionId (untagged events are global) */
+  sessionId?: string;
+  /** Owner of the connection; only events with a matching data.userId are delivered */
+  userId?: string;
+  /** Approvers also receive approval events of other users */
+  allApprovals?: boolean;
+}
+
 export class SSEManager {
-  private connections: Set<ServerResponse> = new Set();
+  private connections: Map<ServerResponse, SSEConnectionFilter> = new Map();
 
-  addConnection(res: ServerResponse): void {
+  addConnection(res: ServerResponse, filter: SSEConnectionFilter = {}): void {
     res.writeHead(200, {
       'Content-Type': 'text/event-stream',
       'Cache-Control': 'no-cache',
       'Connection': 'keep-alive',
       'Access-Control-Allow-Origin': '*',
     });
-    this.connections.add(res);
+    this.connections.set(res, filter);
     res.on('close', () => this.connections.delete(res));
   }
 
   send(event: SSEEvent): void {
     const data = `data: ${JSON.stringify(event)}\n\n`;
-    for (const conn of this.connections) {
+    const { taskId, sessionId, userId } = (event.data ?? {}) as { taskId?: unknown; sessionId?: unknown; userId?: unknown };
+    for (const [conn, filter] of this.connections) {
+      // Other users' approval events reach approvers regardless of the session they watch
+      const crossUser = !!filter.userId && filter.userId !== userId;
+      if (crossUser && !(filter.allApprovals && event.type.startsWith('approval_'))) continue;
+      if (filter.taskId && filter.taskId !== taskId) continue;
+      if (!crossUser && filter.sessionId && sessionId !== undefined && filter.sessionId !== sessionId) continue;
       if (!conn.destroyed) {
         conn.write(data);
       }
@@ -38,7 +56,7 @@ export class SSEManager {
   }
 
   endAll(): void {
-    for (const conn of this.connections) {
+    for (const conn of this.connections.keys()) {
       if (!conn.destroyed) conn.end();
     }
     this.connections.clear();
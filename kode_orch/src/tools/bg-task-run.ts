@@ -4,6 +4,7 @@ import { resolve } from 'node:path';
 import type { BgTaskRunner } from '../orchestrator/bg-task-runner.js';
 import type { TaskPriority, ResourceLimits } from '../orchestrator/bg-task-runner.js';
 import type { SkillLoader } from '../orchestrator/skill-loader.js';
+import type { SessionOrigin } from '../orchestrator/session-manager.js';
 import { logger } from '../utils/logger.js';
 
 export interface SubAgentTemplate {
@@ -17,7 +18,15 @@ export function registerBgTaskTools(
   runner: BgTaskRunner,
   templates: SubAgentTemplate[],
   skillLoader: SkillLoader,
+  resolveOrigin: (agentId: string | undefined) => SessionOrigin | undefined,
 ): void {
+  // Tasks are only visible to orchestrators of the user that dispatched them
+  const ownedTask = (taskId: string, ctx: any) => {
+    const task = runner.getTask(taskId);
+    const origin = resolveOrigin(ctx?.agentId);
+    return task && origin && task.userId === origin.userId ? task : undefined;
+  };
+
   const templateList = templates
     .map((tpl) => `- agentTemplateId: ${tpl.id}\n  用途: ${tpl.whenToUse}`)
     .join('\n');
@@ -38,6 +47,9 @@ export function registerBgTaskTools(
 - 复杂任务可同时传多个 Skill（如同时需要 web 开发和测试能力）
 - 支持 priority 参数控制优先级（high/normal/low）
 - 支持 limits 参数控制资源限制（maxToolCalls/maxSteps/idleTimeoutMs）
+- 支持 dependsOn 参数声明前置任务：任务先处于 blocked 状态，所有前置任务 completed 后自动启动；任一前置任务失败/取消则自动级联取消
+- 默认会把前置任务的结果附加到 prompt（pipeResults=false 可关闭）
+- 启用独立工作区时，每个任务有自己的目录；workspaceFrom 可指定沿用某个前置任务的工作区，在其产出的文件上继续工作（该任务自动成为前置任务）
 - 工具立即返回 taskId，子 Agent 在后台执行
 - 完成后系统自动通知
 
@@ -59,9 +71,12 @@ ${skillList}`,
         maxSteps: z.number().optional().describe('模型交互轮次上限'),
         idleTimeoutMs: z.number().optional().describe('空闲超时毫秒数'),
       }).optional().describe('资源限制'),
+      dependsOn: z.array(z.string()).optional().describe('前置任务 ID 列表，全部完成后才开始执行'),
+      pipeResults: z.boolean().optional().describe('是否把前置任务结果附加到 prompt，默认 true'),
+      workspaceFrom: z.string().optional().describe('沿用该前置任务的工作区（任务 ID）'),
     }),
-    async execute(args) {
-      const { description, prompt, agentTemplateId, skillName, skills, context, priority, limits } = args;
+    async execute(args, ctx) {
+      const { description, prompt, agentTemplateId, skillName, skills, context, priority, limits, dependsOn, pipeResults, workspaceFrom } = args;
       const tpl = templates.find((t) => t.id === agentTemplateId);
       if (!tpl) {
         return {
@@ -70,6 +85,19 @@ ${skillList}`,
         };
       }
 
+      const origin = resolveOrigin(ctx?.agentId);
+      if (!origin) {
+        return { ok: false, error: '无法识别发起任务的会话' };
+      }
+
+      const unknownDeps = (dependsOn ?? []).filter((id: string) => !ownedTask(id, ctx));
+      if (unknownDeps.length > 0) {
+        return { ok: false, error: `前置任务不存在：${unknownDeps.join(', ')}` };
+      }
+      if (workspaceFrom && !ownedTask(workspaceFrom, ctx)) {
+        return { ok: false, error: `workspaceFrom 指定的任务不存在：${workspaceFrom}` };
+      }
+
       // Merge skills list (normalize string to array, handle JSON-stringified arrays)
       const skillNames: string[] = [];
       let rawSkills: string[] | undefined;
@@ -133,14 +161,22 @@ ${skillList}`,
         priority: priority as TaskPriority | undefined,
         limits: limits as ResourceLimits | undefined,
         skills: skillNames.length > 0 ? skillNames : undefined,
+        dependsOn,
+        pipeResults,
+        workspaceFrom,
+        sessionId: origin.sessionId,
+        userId: origin.userId,
       });
+      const status = runner.getTask(taskId)?.status;
       return {
         taskId,
-        status: 'dispatched',
+        status: status === 'blocked' ? 'blocked' : 'dispatched',
         agentTemplateId,
         priority: priority ?? 'normal',
         skills: skillNames.length > 0 ? skillNames : undefined,
-        message: `任务已派发给 ${agentTemplateId}${skillNames.length > 0 ? `（使用 Skill: ${skillNames.join(', ')}）` : ''}，ID: ${taskId}`,
+        dependsOn: dependsOn && dependsOn.length > 0 ? dependsOn : undefined,
+        message: `任务已派发给 ${agentTemplateId}${skillNames.length > 0 ? `（使用 Skill: ${skillNames.join(', ')}）` : ''}，ID: ${taskId}`
+          + (status === 'blocked' ? `，等待前置任务 ${dependsOn!.join(', ')} 完成后自动开始` : ''),
       };
     },
     metadata: { readonly: false, version: '1.0' },
@@ -153,7 +189,7 @@ ${skillList}`,
     parameters: z.object({
       taskId: z.string().optional().describe('要查询的任务 ID，不传则返回全部'),
     }),
-    async execute(args) {
+    async execute(args, ctx) {
       const formatTask = (t: any) => ({
         id: t.id,
         templateId: t.templateId,
@@ -169,17 +205,25 @@ ${skillList}`,
         result: t.result,
         error: t.error,
         cancelReason: t.cancelReason,
+        statusReason: t.statusReason,
         sandboxUrl: t.sandboxUrl,
         sandboxAlive: t.sandboxAlive,
         agentAlive: t.agentAlive, // 子 Agent 是否还存活（可继续对话）
+        dependsOn: t.dependsOn,
+        workspace: t.workspace,
+        workspaceFrom: t.workspaceFrom,
+        artifactCount: t.artifactCount,
+        parentTaskId: t.parentTaskId,
+        lineage: t.lineage,
       });
 
       if (args.taskId) {
-        const task = runner.getTask(args.taskId);
+        const task = ownedTask(args.taskId, ctx);
         if (!task) return { ok: false, error: `任务 ${args.taskId} 不存在` };
         return formatTask(task);
       }
-      return runner.getAllTasks().map(formatTask);
+      const userId = resolveOrigin(ctx?.agentId)?.userId;
+      return runner.getAllTasks().filter((t) => t.userId === userId).map(formatTask);
     },
     metadata: { readonly: true, version: '1.0' },
   });
@@ -187,16 +231,16 @@ ${skillList}`,
   // ===== bg_task_cancel =====
   tool({
     name: 'bg_task_cancel',
-    description: '取消正在运行或排队中的任务。用于：任务不再需要、子 Agent 似乎卡住、需求变更。',
+    description: '取消正在运行、排队中或等待前置任务（blocked）的任务。依赖它的 blocked 任务会被级联取消。用于：任务不再需要、子 Agent 似乎卡住、需求变更。',
     parameters: z.object({
       taskId: z.string().describe('要取消的任务 ID'),
       reason: z.string().optional().describe('取消原因'),
     }),
-    async execute(args) {
+    async execute(args, ctx) {
+      const task = ownedTask(args.taskId, ctx);
+      if (!task) return { ok: false, error: `任务 ${args.taskId} 不存在` };
       const ok = await runner.cancel(args.taskId, args.reason);
       if (!ok) {
-        const task = runner.getTask(args.taskId);
-        if (!task) return { ok: false, error: `任务 ${args.taskId} 不存在` };
         return { ok: false, error: `任务状态为 ${task.status}，无法取消` };
       }
       return { ok: true, taskId: args.taskId, status: 'cancelled', reason: args.reason };
@@ -212,22 +256,22 @@ ${skillList}`,
       taskId: z.string().describe('要重试的任务 ID（必须是 failed 或 cancelled 状态）'),
       modifiedPrompt: z.string().optional().describe('修改后的指令（不传则复用原始指令）'),
     }),
-    async execute(args) {
-      const task = runner.getTask(args.taskId);
+    async execute(args, ctx) {
+      const task = ownedTask(args.taskId, ctx);
       if (!task) return { ok: false, error: `任务 ${args.taskId} 不存在` };
       if (task.status !== 'failed' && task.status !== 'cancelled') {
         return { ok: false, error: `只能重试 failed/cancelled 任务，当前状态: ${task.status}` };
       }
 
-      const newPrompt = args.modifiedPrompt ?? task.prompt;
-      const newDescription = `${task.description} (retry #${task.retryCount + 1})`;
-      const newTaskId = runner.start(task.templateId, newPrompt, newDescription, {
-        priority: task.priority,
-        limits: task.resourceLimits,
-        skills: task.skills,
-        retryCount: task.retryCount + 1,
-        redoHistory: task.redoHistory,
-      });
+      // 前置任务以最新一次重试为准；仍失败的前置任务需要先重试，重试时会自动带上本任务
+      const brokenParent = runner.latestAttempts(task.dependsOn)
+        .map((id) => runner.getTask(id))
+        .find((p) => p && (p.status === 'failed' || p.status === 'cancelled'));
+      if (brokenParent) {
+        return { ok: false, error: `前置任务 ${brokenParent.id} 为 ${brokenParent.status} 状态，请先重试它（依赖它的任务会一并重试）` };
+      }
+
+      const newTaskId = runner.retry(task, args.modifiedPrompt);
 
       return {
         ok: true,
@@ -248,8 +292,8 @@ ${skillList}`,
       taskId: z.string().describe('要打回的任务 ID（必须是 completed 状态）'),
       feedback: z.string().describe('具体反馈：为什么结果不满意、需要如何改进'),
     }),
-    async execute(args) {
-      const task = runner.getTask(args.taskId);
+    async execute(args, ctx) {
+      const task = ownedTask(args.taskId, ctx);
       if (!task) return { ok: false, error: `任务 ${args.taskId} 不存在` };
       if (task.status !== 'completed') {
         return { ok: false, error: `只能打回 completed 任务，当前状态: ${task.status}` };
@@ -275,6 +319,13 @@ ${skillList}`,
         skills: task.skills,
         retryCount: task.retryCount,
         redoHistory: newRedoHistory,
+        dependsOn: runner.latestAttempts(task.dependsOn),
+        pipeResults: task.pipeResults,
+        workspaceFrom: task.workspaceFrom && runner.latestAttempt(task.workspaceFrom),
+        parentTaskId: task.id,
+        lineage: 'redo',
+        sessionId: task.sessionId,
+        userId: task.userId,
       });
 
       return {
@@ -296,11 +347,11 @@ ${skillList}`,
       taskId: z.string().describe('运行中的任务 ID'),
       instruction: z.string().describe('要追加的指令'),
     }),
-    async execute(args) {
+    async execute(args, ctx) {
+      const task = ownedTask(args.taskId, ctx);
+      if (!task) return { ok: false, error: `任务 ${args.taskId} 不存在` };
       const ok = await runner.sendMessage(args.taskId, args.instruction);
       if (!ok) {
-        const task = runner.getTask(args.taskId);
-        if (!task) return { ok: false, error: `任务 ${args.taskId} 不存在` };
         return { ok: false, error: `任务状态为 ${task.status}，无法发送消息（仅 running 状态可发送）` };
       }
       return { ok: true, taskId: args.taskId, message: '指令已发送给子 Agent' };
@@ -335,7 +386,8 @@ ${skillList}`,
       taskId: z.string().describe('已完成任务的 ID（必须是 completed 状态且 agentAlive=true）'),
       message: z.string().describe('要发送给子 Agent 的消息'),
     }),
-    async execute(args) {
+    async execute(args, ctx) {
+      if (!ownedTask(args.taskId, ctx)) return { ok: false, error: `任务 ${args.taskId} 不存在` };
       const result = runner.chatAsync(args.taskId, args.message);
       if (!result.ok) {
         return { ok: false, error: result.error };
@@ -0,0 +1,37 @@
+import { tool } from '@shareai-lab/kode-sdk';
+import { z } from 'zod';
+import type { BgTaskRunner } from '../orchestrator/bg-task-runner.js';
+
+/**
+ * Register report_progress tool.
+ * Sub-agents call this to set an explicit stage and percent for their own task,
+ * which replaces the runner's estimate in ProgressTracker.
+ */
+export function registerReportProgressTool(runner: BgTaskRunner): void {
+  tool({
+    name: 'report_progress',
+    description: `汇报当前任务的进度（阶段 + 完成百分比），用户会在界面上实时看到。
+
+使用场景：
+- 进入新的阶段时（如"调研完成，开始撰写报告"）
+- 完成一个较大的子步骤后
+
+注意：
+- percent 为 0-100 的整数，应单调递增
+- 不要频繁调用，每个阶段一次即可`,
+    parameters: z.object({
+      percent: z.number().min(0).max(100).describe('完成百分比（0-100）'),
+      stage: z.string().describe('当前阶段名称，如"调研"、"编码"、"测试"'),
+      message: z.string().optional().describe('补充说明'),
+    }),
+    async execute(args, ctx) {
+      // The sub-agent's id is its task id, so an agent can only report on its own task
+      const taskId = ctx?.agentId;
+      if (!taskId) return { ok: false, error: '无法识别当前任务' };
+      const ok = runner.reportProgress(taskId, args.percent, args.stage, args.message);
+      if (!ok) return { ok: false, error: `任务 ${taskId} 不存在或未在运行` };
+      return { ok: true };
+    },
+    metadata: { readonly: true, version: '1.0' },
+  });
+}
@@ -1,6 +1,8 @@
 import { tool } from '@shareai-lab/kode-sdk';
 import { z } from 'zod';
+import { connect } from 'node:net';
 import { logger } from '../utils/logger.js';
+import { previewPath, registerPreview } from '../sandbox/preview-registry.js';
 
 /**
  * Register sandbox_preview tool.
@@ -21,11 +23,30 @@ export function setSandboxForAgent(agentId: string, sandbox: Sandbox): void {
   sandboxRegistry.set(agentId, sandbox);
 }
 
+export function getSandboxForAgent(agentId: string): Sandbox | undefined {
+  return sandboxRegistry.get(agentId);
+}
+
 export function removeSandboxForAgent(agentId: string): void {
   sandboxRegistry.delete(agentId);
 }
 
-export function registerSandboxPreviewTool(): void {
+export interface SandboxPreviewOptions {
+  /** Public base URL of the HTTP server; local previews are proxied under it */
+  previewBaseUrl: string;
+  /** Host ports that must never be proxied, e.g. this server's own port and Postgres */
+  reservedPorts: number[];
+}
+
+/**
+ * A local sandbox shares the host's network, so a preview could expose any
+ * service listening there. Common database, cache and admin ports are refused
+ * along with privileged ports; dev servers use neither.
+ */
+const SERVICE_PORTS = [2375, 2376, 3306, 5432, 5433, 5984, 6379, 9042, 9200, 9300, 11211, 15672, 27017];
+const MIN_PREVIEW_PORT = 1024;
+
+export function registerSandboxPreviewTool(opts: SandboxPreviewOptions): void {
   tool({
     name: 'sandbox_preview',
     description: `获取沙箱中运行的服务的公开预览 URL。
@@ -36,7 +57,7 @@ export function registerSandboxPreviewTool(): void {
 - 调用此工具获取公开 URL，然后在回复中用 [sandbox-preview](url) 格式返回
 
 注意：
-- 只有 E2B 沙箱支持此功能
+- E2B 沙箱返回公开 URL；本地沙箱返回经服务端代理的 URL（/preview/<taskId>/，带访问 token）
 - 你必须先启动服务，再调用此工具
 - 获取 URL 后，务必在最终回复中包含 [sandbox-preview](url) 标记，这样系统才能保留沙箱供用户访问`,
     parameters: z.object({
@@ -54,10 +75,22 @@ export function registerSandboxPreviewTool(): void {
       const e2bSandbox = sandbox as any;
       if (typeof e2bSandbox.getHostUrl !== 'function') {
         if (sandbox.kind === 'local') {
+          if (!Number.isInteger(port) || port < MIN_PREVIEW_PORT || port > 65535) {
+            return { ok: false, error: `端口 ${port} 不可预览，请使用 ${MIN_PREVIEW_PORT}-65535 之间的端口` };
+          }
+          if (opts.reservedPorts.includes(port) || SERVICE_PORTS.includes(port)) {
+            return { ok: false, error: `端口 ${port} 是服务端或常见数据库/服务的端口，不能预览，请换一个端口启动服务` };
+          }
+          if (!(await isListening(port))) {
+            return { ok: false, error: `端口 ${port} 上没有服务在监听，请先启动服务` };
+          }
+          const target = registerPreview(agentId, port);
+          const url = `${opts.previewBaseUrl.replace(/\/+$/, '')}${previewPath(agentId)}?token=${target.token}`;
+          logger.info('sandbox-preview', `Registered local preview`, { agentId, port });
           return {
             ok: true,
-            url: `http://localhost:${port}`,
-            note: '本地沙箱，URL 仅在本机可用',
+            url,
+            instruction: '请在回复的最后包含 [sandbox-preview](url) 标记，系统会自动保留沙箱供用户访问。',
           };
         }
         return { ok: false, error: '当前沙箱类型不支持预览 URL' };
@@ -78,3 +111,13 @@ export function registerSandboxPreviewTool(): void {
     metadata: { readonly: true, version: '1.0' },
   });
 }
+
+function isListening(port: number): Promise<boolean> {
+  return new Promise((resolve) => {
+    const socket = connect({ host: 'localhost', port, autoSelectFamily: true });
+    socket.setTimeout(2000);
+    socket.once('connect', () => { socket.destroy(); resolve(true); });
+    socket.once('timeout', () => { socket.destroy(); resolve(false); });
+    socket.once('error', () => resolve(false));
+  });
+}
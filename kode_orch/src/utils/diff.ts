@@ -0,0 +1,118 @@
+/**
+ * Line-based unified diff. Common prefix/suffix are trimmed first; the
+ * remaining middle is diffed with an LCS table, or replaced wholesale when it
+ * is too large for one.
+ */
+
+const MAX_LCS_CELLS = 4_000_000;
+
+type Op = { type: ' ' | '-' | '+'; line: string };
+
+export interface DiffStats {
+  additions: number;
+  deletions: number;
+}
+
+export function unifiedDiff(oldText: string, newText: string, path: string, context = 3): { diff: string } & DiffStats {
+  const ops = diffLines(splitLines(oldText), splitLines(newText));
+  const additions = ops.filter((o) => o.type === '+').length;
+  const deletions = ops.filter((o) => o.type === '-').length;
+  if (additions === 0 && deletions === 0) return { diff: '', additions, deletions };
+
+  const out = [`--- a/${path}`, `+++ b/${path}`];
+  for (const hunk of buildHunks(ops, context)) out.push(...hunk);
+  return { diff: out.join('\n'), additions, deletions };
+}
+
+function splitLines(text: string): string[] {
+  if (text === '') return [];
+  const lines = text.split('\n');
+  if (lines[lines.length - 1] === '') lines.pop();
+  return lines;
+}
+
+function diffLines(a: string[], b: string[]): Op[] {
+  let start = 0;
+  while (start < a.length && start < b.length && a[start] === b[start]) start++;
+  let endA = a.length;
+  let endB = b.length;
+  while (endA > start && endB > start && a[endA - 1] === b[endB - 1]) { endA--; endB--; }
+
+  const ops: Op[] = a.slice(0, start).map((line) => ({ type: ' ', line }));
+  const midA = a.slice(start, endA);
+  const midB = b.slice(start, endB);
+  if ((midA.length + 1) * (midB.length + 1) > MAX_LCS_CELLS) {
+    ops.push(...midA.map((line): Op => ({ type: '-', line })), ...midB.map((line): Op => ({ type: '+', line })));
+  } else {
+    ops.push(...lcsDiff(midA, midB));
+  }
+  ops.push(...a.slice(endA).map((line): Op => ({ type: ' ', line })));
+  return ops;
+}
+
+function lcsDiff(a: string[], b: string[]): Op[] {
+  const n = a.length;
+  const m = b.length;
+  const width = m + 1;
+  // table[i * width + j] = LCS length of a[i..] and b[j..]
+  const table = new Uint32Array((n + 1) * width);
+  for (let i = n - 1; i >= 0; i--) {
+    for (let j = m - 1; j >= 0; j--) {
+      table[i * width + j] = a[i] === b[j]
+        ? table[(i + 1) * width + j + 1] + 1
+        : Math.max(table[(i + 1) * width + j], table[i * width + j + 1]);
+    }
+  }
+
+  const ops: Op[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < n && j < m) {
+    if (a[i] === b[j]) { ops.push({ type: ' ', line: a[i] }); i++; j++; }
+    else if (table[(i + 1) * width + j] >= table[i * width + j + 1]) ops.push({ type: '-', line: a[i++] });
+    else ops.push({ type: '+', line: b[j++] });
+  }
+  while (i < n) ops.push({ type: '-', line: a[i++] });
+  while (j < m) ops.push({ type: '+', line: b[j++] });
+  return ops;
+}
+
+function buildHunks(ops: Op[], context: number): string[][] {
+  const hunks: string[][] = [];
+  let i = 0;
+  while (i < ops.length) {
+    // Find the next change
+    while (i < ops.length && ops[i].type === ' ') i++;
+    if (i >= ops.length) break;
+
+    const start = Math.max(0, i - context);
+    let end = i;
+    // Extend while the gap to the next change stays within 2 * context
+    while (end < ops.length) {
+      if (ops[end].type !== ' ') { end++; continue; }
+      let next = end;
+      while (next < ops.length && ops[next].type === ' ') next++;
+      if (next >= ops.length || next - end > 2 * context) {
+        end = Math.min(ops.length, end + context);
+        break;
+      }
+      end = next;
+    }
+
+    let oldLine = 1;
+    let newLine = 1;
+    for (let k = 0; k < start; k++) {
+      if (ops[k].type !== '+') oldLine++;
+      if (ops[k].type !== '-') newLine++;
+    }
+    const slice = ops.slice(start, end);
+    const oldCount = slice.filter((o) => o.type !== '+').length;
+    const newCount = slice.filter((o) => o.type !== '-').length;
+    hunks.push([
+      `@@ -${oldCount === 0 ? oldLine - 1 : oldLine},${oldCount} +${newCount === 0 ? newLine - 1 : newLine},${newCount} @@`,
+      ...slice.map((o) => o.type + o.line),
+    ]);
+    i = end;
+  }
+  return hunks;
+}